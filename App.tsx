@@ -1,85 +1,30 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Calculator } from './components/Calculator';
 import { ResultTable } from './components/ResultTable';
 import { FlangeDiagram } from './components/FlangeDiagram';
 import { BoltLoadTable } from './components/BoltLoadTable';
-import { TEMA_BOLT_DATA, GASKET_RING_TABLE, ASME_BOLT_MATERIALS, BOLT_TEMP_STEPS, GASKET_TYPES, WHC_MAX_PITCH_TABLE, HYDRAULIC_TENSIONING_DATA, ASME_SHELL_MATERIALS } from './constants';
-import { CalculationResults, FlangeInputs } from './types';
-
-interface SavedRecord {
-  id: string;
-  originalInputs: FlangeInputs; // Store original inputs to allow full restoration
-  itemNo: string;
-  part: string;
-  id_mm: number;
-  g0: number;
-  g1: number;
-  bcd: number;
-  flangeOd: number;
-  boltSize: string;
-  boltEa: number;
-  boltMaterial: string;
-  hasOuterRing: boolean;
-  hasInnerRing: boolean;
-  gasketRod: number;
-  gasketOd: number;
-  gasketId: number;
-  gasketRid: number;
-  gasketType: string;
-}
-
-const toMpa = (p: number, unit: string): number => {
-  switch (unit) {
-    case 'Bar': return p * 0.1;
-    case 'PSI': return p * 0.00689476;
-    case 'kg/cm²': return p * 0.0980665;
-    default: return p;
-  }
-};
-
-const toCelsius = (t: number, unit: string): number => {
-  switch (unit) {
-    case '°F': return (t - 32) * 5 / 9;
-    case 'K': return t - 273.15;
-    default: return t;
-  }
-};
-
-const interpolateStress = (temp: number, stressCurve: (number | null)[]): number => {
-  const cleanCurve = stressCurve.map(s => s || 0);
-  if (temp <= BOLT_TEMP_STEPS[0]) return cleanCurve[0];
-  if (temp >= BOLT_TEMP_STEPS[BOLT_TEMP_STEPS.length - 1]) return cleanCurve[cleanCurve.length - 1];
-
-  for (let i = 0; i < BOLT_TEMP_STEPS.length - 1; i++) {
-    const t1 = BOLT_TEMP_STEPS[i];
-    const t2 = BOLT_TEMP_STEPS[i + 1];
-    if (temp >= t1 && temp <= t2) {
-      const s1 = cleanCurve[i];
-      const s2 = cleanCurve[i + 1] || s1;
-      return s1 + ((s2 - s1) * (temp - t1)) / (t2 - t1);
-    }
-  }
-  return cleanCurve[0];
-};
-
-const calculateAutoG0 = (currentInputs: Partial<FlangeInputs>): number => {
-  const shellMatId = currentInputs.shellMaterial || ASME_SHELL_MATERIALS[0].id;
-  const shellMat = ASME_SHELL_MATERIALS.find(m => m.id === shellMatId) || ASME_SHELL_MATERIALS[0];
-  const temp = currentInputs.designTemp ?? 100;
-  const tempU = currentInputs.tempUnit || '°C';
-  const press = currentInputs.designPressure ?? 1.0;
-  const pressU = currentInputs.pressureUnit || 'MPa';
-  const id = currentInputs.insideDia ?? 300;
-  const corr = currentInputs.corrosionAllowance ?? 0;
-  const jointEff = currentInputs.jointEfficiency ?? 1.0;
-
-  const shellStress = interpolateStress(toCelsius(temp, tempU), shellMat.stresses);
-  const pMpa = toMpa(press, pressU);
-  
-  const denom = (shellStress * jointEff - 0.6 * pMpa);
-  const autoG0 = (pMpa * (id + 2 * corr) / 2) / (denom > 0 ? denom : 1) + corr;
-  return Math.ceil(autoG0);
-};
+import { FlangeStressTable } from './components/FlangeStressTable';
+import { LoadCaseTable } from './components/LoadCaseTable';
+import { TighteningSequenceTable } from './components/TighteningSequenceTable';
+import { BoltingBomTable } from './components/BoltingBomTable';
+import { OptimizerPanel } from './components/OptimizerPanel';
+import { MethodComparisonPanel } from './components/MethodComparisonPanel';
+import { SweepPanel } from './components/SweepPanel';
+import { SensitivityTornado } from './components/SensitivityTornado';
+import { MonteCarloPanel } from './components/MonteCarloPanel';
+import { JobProgressBar } from './components/JobProgressBar';
+import { UnitSelector } from './components/UnitSelector';
+import { ProjectBar } from './components/ProjectBar';
+import { ASME_BOLT_MATERIALS, GASKET_TYPES, ASME_SHELL_MATERIALS } from './constants';
+import { DisplayUnits, FlangeInputs, JobProgress, MonteCarloResults, MonteCarloSettings, OptimizerCandidate, OptimizerJob, OptimizerJobResults, Project, ProjectMeta, ProjectSaveStatus, SavedRecord, SweepRequest, SweepResult, TighteningMethodComparison } from './types';
+import { calculateAutoG0, calculateAutoG1, G0_TRIGGER_FIELDS, resolveHubGeometry } from './services/flangeEngine';
+import { evaluateLoadCases } from './services/loadCases';
+import { generateTighteningSequence } from './services/tighteningSequence';
+import { consolidateBom, createBomLine } from './services/bolting';
+import { resetManualOverrides } from './services/optimizer';
+import { OptimizerJobHandle, runOptimizerJob } from './services/optimizerClient';
+import { DEFAULT_UNITS, formatArea, formatLength } from './services/units';
+import { createProject, deleteProject, listProjects, saveProject } from './services/projectStore';
 
 const initialG0 = calculateAutoG0({
   designTemp: 100,
@@ -99,7 +44,7 @@ const initialInputs: FlangeInputs = {
   boltCount: 12,
   insideDia: 300,
   g0: initialG0,
-  g1: Math.ceil(initialG0 * 1.3 / 3 + initialG0),
+  g1: calculateAutoG1(initialG0),
   cClearance: 2.5,
   shellGapA: 3.0,
   gasketSeatingWidth: 15,
@@ -116,6 +61,7 @@ const initialInputs: FlangeInputs = {
   manualY: 0,
   manualPassM: 0,
   manualPassY: 0,
+  manualGasketMaxStress: 0,
   designTemp: 100,
   tempUnit: '°C',
   designPressure: 1.0,
@@ -125,6 +71,8 @@ const initialInputs: FlangeInputs = {
   corrosionAllowance: 0,
   boltMaterial: ASME_BOLT_MATERIALS[7].id,
   passPartitionLength: 0,
+  passLaneCount: 0,
+  passLanePitch: 0,
   passPartitionWidth: 0,
   gasketType: GASKET_TYPES[12].id,
   passGasketType: GASKET_TYPES[12].id,
@@ -142,223 +90,157 @@ const initialInputs: FlangeInputs = {
   phiGMax: 1,
   g: 0.7,
   passPartAreaReduction: 50,
+  externalAxialForce: 0,
+  externalMoment: 0,
+  externalLoadMethod: 'kellogg',
+  lubricant: 'moly',
+  torqueMethod: 'nutFactor',
+  manualNutFactor: 0,
+  tensionerPressureArea: 0,
+  coverage50Factor: 0,
+  tighteningPattern: 'legacyCross',
+  elongationTargetStress: 0,
+  elongationTolerance: 10,
+  useTwoSidedJoint: false,
+  tubeSide: {
+    designPressure: 1.0,
+    designTemp: 100,
+    gasketType: GASKET_TYPES[12].id,
+    passGasketType: GASKET_TYPES[12].id,
+    gasketSeatingWidth: 0,
+    facingSketch: '',
+    passPartitionLength: 0,
+    passPartitionWidth: 0,
+  },
+  loadCases: [],
+  includeHydrotest: true,
+  flangeType: 'integral',
+  flangeThickness: 0,
+  hubLength: 0,
+  hubTaper: 3,
+  g1Rule: 'legacy',
+  g1MinRatio: 1.5,
+  lockG1: false,
+  lapContactDia: 0,
+  reverseBoreDia: 0,
+  matingFlangeThickness: 0,
+  tubesheetThickness: 0,
+  gasketThickness: 3.2,
+  nutHeight: 0,
+  washerThickness: 0,
+  threadProjection: 6,
+  studLengthIncrement: 5,
+  optimizerMinMargin: 0,
+  boltingCostPerKg: 8,
+  boltCountMultiple: 4,
+  minBoltCount: 4,
+  maxBoltCount: 80,
+  preferredBoltCounts: '',
+  straddlePassLanes: false,
 };
 
 const App: React.FC = () => {
   const [inputs, setInputs] = useState<FlangeInputs>(initialInputs);
+  const [units, setUnits] = useState<DisplayUnits>(DEFAULT_UNITS);
   const [isFixedSizeSearch, setIsFixedSizeSearch] = useState(false);
   const [savedRecords, setSavedRecords] = useState<SavedRecord[]>([]);
   const [editingRecordId, setEditingRecordId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta>(() => createProject({}, DEFAULT_UNITS).meta);
+  const [saveStatus, setSaveStatus] = useState<ProjectSaveStatus>('loading');
+  const storedSnapshot = useRef<Pick<Project, 'meta' | 'units' | 'records'> | null>(null);
+  const [optimizerCandidates, setOptimizerCandidates] = useState<OptimizerCandidate[] | null>(null);
+  const [optimizerFixedSize, setOptimizerFixedSize] = useState(false);
+  const [methodComparison, setMethodComparison] = useState<TighteningMethodComparison | null>(null);
+  const [sweepResult, setSweepResult] = useState<SweepResult | null>(null);
+  const [monteCarloResult, setMonteCarloResult] = useState<MonteCarloResults | null>(null);
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+  const [jobLabel, setJobLabel] = useState('');
+  const activeJob = useRef<OptimizerJobHandle<unknown> | null>(null);
+
+  const loadCaseSummary = useMemo(() => evaluateLoadCases(inputs), [inputs]);
+  const consolidatedBom = useMemo(() => consolidateBom(savedRecords.map(r => r.bolting)), [savedRecords]);
+  const tighteningSequence = useMemo(
+    () => generateTighteningSequence(inputs.boltCount, inputs.tighteningPattern),
+    [inputs.boltCount, inputs.tighteningPattern]
+  );
+  const evaluation = loadCaseSummary.cases[0].evaluation;
+  const { results, pcc1: pccStatusInfo, torque, tensioning, elongation, marginPercent, isSafe } = evaluation;
+  const rigidity = results.flangeDesign.rigidity;
+  const hasFlangeThickness = results.flangeDesign.thickness > 0;
+
+  // One background job at a time; starting a new one cancels the previous
+  const startJob = <K extends OptimizerJob['kind']>(
+    job: Extract<OptimizerJob, { kind: K }>,
+    label: string,
+    onResult: (result: OptimizerJobResults[K]) => void
+  ) => {
+    activeJob.current?.cancel();
+    const handle = runOptimizerJob(job, setJobProgress);
+    activeJob.current = handle;
+    setJobLabel(label);
+    setJobProgress({ done: 0, total: 1 });
+
+    handle.promise
+      .then(result => {
+        if (activeJob.current !== handle) return;
+        if (result) onResult(result);
+      })
+      .catch(err => {
+        if (activeJob.current === handle) alert(`${label} failed: ${err.message}`);
+      })
+      .finally(() => {
+        if (activeJob.current !== handle) return;
+        activeJob.current = null;
+        setJobProgress(null);
+      });
+  };
 
-  const calculateFullResults = useCallback((currentInputs: FlangeInputs): CalculationResults => {
-    const boltData = TEMA_BOLT_DATA.find(b => b.size === currentInputs.boltSize) || TEMA_BOLT_DATA[0];
-    const tensionData = HYDRAULIC_TENSIONING_DATA.find(t => t.size === currentInputs.boltSize);
-    const ringConfig = GASKET_RING_TABLE.find(r => currentInputs.insideDia >= r.min && currentInputs.insideDia <= r.max) || GASKET_RING_TABLE[GASKET_RING_TABLE.length - 1];
-
-    const innerRingWidth = currentInputs.hasInnerRing ? (currentInputs.innerRingWidthManual || ringConfig.irMin) : 0;
-    const outerRingWidth = currentInputs.hasOuterRing ? (currentInputs.outerRingWidthManual || ringConfig.orMin) : 0;
-    const effectiveC = currentInputs.cClearance || 2.5;
-    const shellGapA = currentInputs.shellGapA !== undefined ? currentInputs.shellGapA : 3.0;
-    const bConst = 1.5; 
-
-    const roundedHoleSize = Math.ceil(boltData.holeSize);
-
-    const effectiveBMin = (currentInputs.useHydraulicTensioning && tensionData) 
-      ? Math.max(boltData.B_min, tensionData.B_ten) 
-      : boltData.B_min;
-    
-    const bcdMethod1 = Math.ceil((effectiveBMin * 25.4 * currentInputs.boltCount) / Math.PI);
-    const radialDistance = boltData.R * 25.4;
-    const bcdMethod2 = Math.ceil(currentInputs.insideDia + (2 * currentInputs.g1) + (2 * radialDistance));
-
-    const baseBCDForAutoGasket = Math.max(bcdMethod1, bcdMethod2);
-
-    const autoSeatingOD_BCD = baseBCDForAutoGasket - roundedHoleSize - (2 * effectiveC) - (2 * bConst) - (2 * outerRingWidth);
-    const autoSeatingOD_Shell = currentInputs.insideDia + (2 * shellGapA) + (2 * innerRingWidth) + (2 * currentInputs.gasketSeatingWidth);
-
-    const autoSeatingOD = Math.max(autoSeatingOD_BCD, autoSeatingOD_Shell);
-    const autoSeatingID = autoSeatingOD - (2 * currentInputs.gasketSeatingWidth);
-
-    const seatingID = currentInputs.manualSeatingID !== 0 ? currentInputs.manualSeatingID : autoSeatingID;
-    const seatingOD = currentInputs.manualSeatingOD !== 0 ? currentInputs.manualSeatingOD : autoSeatingOD;
-    
-    const gasketOD = seatingOD + (currentInputs.hasOuterRing ? (2 * outerRingWidth) : 0);
-    const gasketID = seatingID - (currentInputs.hasInnerRing ? (2 * innerRingWidth) : 0);
-
-    const bcdMethod3 = gasketOD + (2 * bConst) + (2 * effectiveC) + roundedHoleSize;
-    const bcdTema = Math.max(bcdMethod1, bcdMethod2, bcdMethod3);
-    const selectedBcdSource = bcdTema === bcdMethod1 ? 1 : (bcdTema === bcdMethod2 ? 2 : 3);
-    const finalBCD = currentInputs.actualBCD !== 0 ? currentInputs.actualBCD : bcdTema;
-    
-    const edgeDistance = boltData.E * 25.4;
-    const odTema = Math.ceil(finalBCD + (2 * edgeDistance));
-    const finalOD = currentInputs.actualOD !== 0 ? currentInputs.actualOD : odTema;
-
-    const gType = GASKET_TYPES.find(g => g.id === currentInputs.gasketType) || GASKET_TYPES[0];
-    const gasketM = currentInputs.manualM !== 0 ? currentInputs.manualM : gType.m;
-    const gasketY = currentInputs.manualY !== 0 ? currentInputs.manualY : gType.y;
-
-    const passGType = GASKET_TYPES.find(g => g.id === currentInputs.passGasketType) || gType;
-    const passM = currentInputs.manualPassM !== 0 ? currentInputs.manualPassM : passGType.m;
-    const passY = currentInputs.manualPassY !== 0 ? currentInputs.manualPassY : passGType.y;
-
-    const boltNominalDia = currentInputs.boltSize * 25.4;
-    const geometricPitch = (Math.PI * finalBCD) / currentInputs.boltCount;
-    const boltSpacingMin = effectiveBMin * 25.4;
-    
-    const whcMaxPitch = WHC_MAX_PITCH_TABLE[currentInputs.boltSize] || (2.5 * boltNominalDia + 12);
-    const maxBoltSpacing = whcMaxPitch;
-
-    const nWidth = currentInputs.gasketSeatingWidth;
-    let b0Width = nWidth / 2;
-    if (currentInputs.facingSketch.startsWith('1a') || currentInputs.facingSketch.startsWith('1b')) {
-      b0Width = nWidth / 2;
-    } else if (currentInputs.facingSketch.startsWith('1c') || currentInputs.facingSketch.startsWith('1d')) {
-      b0Width = nWidth / 4;
-    } else if (currentInputs.facingSketch.startsWith('2')) {
-      b0Width = nWidth / 8;
-    }
+  const cancelJob = () => {
+    activeJob.current?.cancel();
+    activeJob.current = null;
+    setJobProgress(null);
+  };
 
-    const Cul = 25.4; 
-    const bWidth = b0Width > 6 ? 0.5 * Cul * Math.sqrt(b0Width / Cul) : b0Width;
-    const gMeanDia = b0Width > 6 ? seatingOD - (2 * bWidth) : (seatingID + seatingOD) / 2;
-
-    const pMpa = toMpa(currentInputs.designPressure, currentInputs.pressureUnit);
-    const hForce = 0.785 * Math.pow(gMeanDia, 2) * pMpa;
-    const hpForce = 2 * pMpa * (bWidth * Math.PI * gMeanDia * gasketM + currentInputs.passPartitionWidth * currentInputs.passPartitionLength * passM);
-    const wm1 = hForce + hpForce;
-    const wm2 = (Math.PI * bWidth * gMeanDia * (gasketY * 0.00689476)) + (currentInputs.passPartitionWidth * currentInputs.passPartitionLength * (passY * 0.00689476));
-
-    const mat = ASME_BOLT_MATERIALS.find(m => m.id === currentInputs.boltMaterial) || ASME_BOLT_MATERIALS[0];
-    const ambientAllowableStress = mat.stresses[1] || 0;
-    const designAllowableStress = interpolateStress(toCelsius(currentInputs.designTemp, currentInputs.tempUnit), mat.stresses);
-
-    const totalBoltArea = boltData.tensileArea * currentInputs.boltCount;
-    const reqAreaOperating = wm1 / designAllowableStress;
-    const reqAreaSeating = wm2 / ambientAllowableStress;
-    const requiredBoltArea = Math.max(reqAreaOperating, reqAreaSeating);
-
-    return {
-      bcdMethod1, bcdMethod2, bcdMethod3, selectedBcdSource,
-      bcdTema, odTema, boltSpacingMin, maxBoltSpacing, 
-      geometricPitch, actualBoltSpacing: maxBoltSpacing,
-      spacingOk: geometricPitch >= boltSpacingMin && geometricPitch <= maxBoltSpacing,
-      radialDistance, edgeDistance, effectiveC, shellGapA,
-      gasketSeatingWidth: nWidth, innerRingWidth, outerRingWidth,
-      gasketID, seatingID, seatingOD, gasketOD, finalBCD, finalOD,
-      maxRaisedFace: finalBCD - roundedHoleSize - (2 * effectiveC) - (2 * bConst) - (2 * outerRingWidth), 
-      boltHoleSize: roundedHoleSize,
-      singleBoltArea: boltData.tensileArea, totalBoltArea,
-      requiredBoltArea,
-      totalBoltLoadAmbient: totalBoltArea * ambientAllowableStress,
-      totalBoltLoadDesign: totalBoltArea * designAllowableStress,
-      ambientAllowableStress, designAllowableStress,
-      gasketM, gasketY, passM, passY, wm1, wm2, hForce, hpForce, gMeanDia, bWidth, b0Width, nWidth
-    };
-  }, []);
+  const performSearch = (targetInputs: FlangeInputs, fixedSize: boolean) => {
+    startJob({ kind: 'search', inputs: targetInputs, fixedSize }, 'Optimizer Search', candidates => {
+      setOptimizerCandidates(candidates);
+      setOptimizerFixedSize(fixedSize);
+    });
+  };
 
-  const results = useMemo(() => {
-    return calculateFullResults(inputs);
-  }, [inputs, calculateFullResults]);
-  
-  const pccStatusInfo = useMemo(() => {
-    if (!inputs.usePcc1Check) return { active: false, safe: true };
-
-    const totalBoltRootArea = results.singleBoltArea * inputs.boltCount;
-    const ringArea = (Math.PI / 4) * (Math.pow(results.seatingOD, 2) - Math.pow(results.seatingID, 2));
-    const reducedPassArea = (inputs.passPartAreaReduction / 100) * inputs.passPartitionWidth * inputs.passPartitionLength;
-    const totalAg = ringArea + reducedPassArea;
-
-    const sbSelCalc = totalBoltRootArea > 0 ? (inputs.sgT * totalAg) / totalBoltRootArea : 0;
-    const valA = Math.min(sbSelCalc, inputs.sbMax || Infinity);
-    const valB = Math.max(valA, inputs.sbMin || 0);
-    const valC = Math.min(valB, inputs.sfMax || Infinity);
-    const sbSelFinal = Math.min(valA, valB, valC);
-
-    const pMpa = toMpa(inputs.designPressure, inputs.pressureUnit);
-
-    const step5Threshold = totalBoltRootArea > 0 ? inputs.sgMinS * (totalAg / totalBoltRootArea) : 0;
-    const step6Numerator = (inputs.sgMinO * totalAg) + ((Math.PI / 4) * pMpa * Math.pow(results.seatingID, 2));
-    const step6Denominator = (inputs.g || 1) * totalBoltRootArea;
-    const step6Threshold = totalBoltRootArea > 0 ? step6Numerator / step6Denominator : 0;
-    const step7Threshold = totalBoltRootArea > 0 ? inputs.sgMax * (totalAg / totalBoltRootArea) : Infinity;
-    const step8Threshold = inputs.phiFMax > 0 ? inputs.sfMax * ((inputs.g || 1) / inputs.phiFMax) : Infinity;
-
-    const isStep5Ok = sbSelFinal >= step5Threshold - 0.001;
-    const isStep6Ok = sbSelFinal >= step6Threshold - 0.001;
-    const isStep7Ok = inputs.sgMax === 0 ? true : (sbSelFinal <= step7Threshold + 0.001);
-    const isStep8Ok = inputs.phiFMax === 0 ? true : (sbSelFinal <= step8Threshold + 0.001);
-
-    return {
-      active: true,
-      safe: isStep5Ok && isStep6Ok && isStep7Ok && isStep8Ok
-    };
-  }, [inputs, results]);
+  const applyCandidate = (candidate: OptimizerCandidate) => {
+    setInputs(prev => resetManualOverrides({
+      ...prev,
+      boltSize: candidate.boltSize,
+      boltCount: candidate.boltCount
+    }));
+  };
 
-  const requiredLoadN = Math.max(results.wm1, results.wm2);
-  const availableLoadN = results.totalBoltLoadDesign;
-  const marginPercent = ((availableLoadN - requiredLoadN) / requiredLoadN) * 100;
-  const isSafe = availableLoadN >= requiredLoadN;
+  const handleCompareMethods = () => {
+    const fixedSize = isFixedSizeSearch;
+    startJob({ kind: 'compare', inputs, fixedSize }, 'Torque vs Tensioning', comparison => {
+      setMethodComparison(comparison);
+      setOptimizerFixedSize(fixedSize);
+    });
+  };
 
-  const performSearch = (targetInputs: FlangeInputs, fixedSize: boolean) => {
-    const optimizedTargetInputs = {
-      ...targetInputs,
-      useManualOverride: false,
-      actualBCD: 0,
-      actualOD: 0,
-      manualSeatingID: 0,
-      manualSeatingOD: 0
-    };
+  const handleRunSweep = (request: SweepRequest) => {
+    startJob({ kind: 'sweep', inputs, request }, 'Parametric Sweep', setSweepResult);
+  };
 
-    let bestSize = optimizedTargetInputs.boltSize;
-    let bestCount = optimizedTargetInputs.boltCount;
-    let minRequiredLoad = Infinity; 
-    let found = false;
-
-    const sizesToSearch = fixedSize 
-      ? [optimizedTargetInputs.boltSize] 
-      : TEMA_BOLT_DATA.filter(b => b.size >= 0.75).map(b => b.size);
-
-    const counts = [4, 8, 12, 16, 20, 24, 28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 68, 72, 76, 80];
-
-    for (const size of sizesToSearch) {
-      for (const count of counts) {
-        const testInputs = { ...optimizedTargetInputs, boltSize: size, boltCount: count };
-        const testResults = calculateFullResults(testInputs);
-        const req = Math.max(testResults.wm1, testResults.wm2);
-        const avail = testResults.totalBoltLoadDesign;
-        const margin = ((avail - req) / req) * 100;
-        
-        if (margin >= 0 && testResults.spacingOk) {
-          if (req < minRequiredLoad) {
-            minRequiredLoad = req;
-            bestSize = size;
-            bestCount = count;
-            found = true;
-          }
-        }
-      }
-    }
+  const handleRunMonteCarlo = (settings: MonteCarloSettings) => {
+    startJob({ kind: 'monteCarlo', inputs, settings }, 'Monte Carlo Assembly', setMonteCarloResult);
+  };
 
-    if (found) {
-      setInputs(prev => ({ 
-        ...prev, 
-        boltSize: bestSize, 
-        boltCount: bestCount,
-        useManualOverride: false,
-        actualBCD: 0,
-        actualOD: 0,
-        manualSeatingID: 0,
-        manualSeatingOD: 0
-      }));
-      const finalTestInputs = { ...optimizedTargetInputs, boltSize: bestSize, boltCount: bestCount };
-      const finalResults = calculateFullResults(finalTestInputs);
-      const finalMargin = ((finalResults.totalBoltLoadDesign - Math.max(finalResults.wm1, finalResults.wm2)) / Math.max(finalResults.wm1, finalResults.wm2)) * 100;
-
-      alert(`Optimization Completed!\n\nObjective: Minimize Required Load\nSearch Mode: ${fixedSize ? 'Fixed Size Search' : 'Full Automatic Search'}\nResult:\nBolt Size: ${bestSize}"\nBolt Count: ${bestCount} EA\nMin Required Load: ${(minRequiredLoad / 1000).toFixed(1)} kN\nDesign Margin: +${finalMargin.toFixed(2)}%\n\nGasket size has been reset to the optimized default.`);
-    } else {
-      alert(`No valid configuration found. ${fixedSize ? `(Current Bolt Size: ${optimizedTargetInputs.boltSize}")` : 'Tried all bolt sizes.'}\nTry adjusting pressure/temp or manually increasing bolt size.`);
-    }
+  const applyMethodCandidate = (candidate: OptimizerCandidate, useHydraulicTensioning: boolean) => {
+    setInputs(prev => resetManualOverrides({
+      ...prev,
+      boltSize: candidate.boltSize,
+      boltCount: candidate.boltCount,
+      useHydraulicTensioning
+    }));
   };
 
   const handleOptimize = () => performSearch(inputs, isFixedSizeSearch);
@@ -371,11 +253,10 @@ const App: React.FC = () => {
   const handleInputChange = (updatedInputs: FlangeInputs, changedFieldName: string) => {
     let finalInputs = { ...updatedInputs };
 
-    const g0Triggers = ['designTemp', 'tempUnit', 'designPressure', 'pressureUnit', 'shellMaterial', 'jointEfficiency', 'insideDia', 'corrosionAllowance'];
-    if (g0Triggers.includes(changedFieldName)) {
+    if (G0_TRIGGER_FIELDS.includes(changedFieldName)) {
        const autoG0 = calculateAutoG0(finalInputs);
        finalInputs.g0 = autoG0;
-       finalInputs.g1 = Math.ceil(autoG0 * 1.3 / 3 + autoG0);
+       if (!finalInputs.lockG1) finalInputs.g1 = resolveHubGeometry(finalInputs).g1;
     }
 
     const designConditions = ['designTemp', 'tempUnit', 'designPressure', 'pressureUnit', 'shellMaterial', 'boltMaterial', 'gasketType', 'passGasketType', 'facingSketch', 'jointEfficiency', 'corrosionAllowance'];
@@ -391,6 +272,10 @@ const App: React.FC = () => {
   };
 
   const handleSaveToList = () => {
+    if (!results.bolting.sized) {
+      alert('No flange thickness meets App. 2 at these inputs. Enter a thickness or revise the design before saving.');
+      return;
+    }
     const newRecord: SavedRecord = {
       id: Date.now().toString(),
       originalInputs: { ...inputs },
@@ -404,6 +289,7 @@ const App: React.FC = () => {
       boltSize: `${inputs.boltSize}"`,
       boltEa: inputs.boltCount,
       boltMaterial: inputs.boltMaterial,
+      bolting: createBomLine(inputs, results.bolting),
       hasOuterRing: inputs.hasOuterRing,
       hasInnerRing: inputs.hasInnerRing,
       gasketRod: parseFloat(results.gasketOD.toFixed(1)),
@@ -421,6 +307,10 @@ const App: React.FC = () => {
       alert('Please select a record to edit from the summary list first.');
       return;
     }
+    if (!results.bolting.sized) {
+      alert('No flange thickness meets App. 2 at these inputs. Enter a thickness or revise the design before saving.');
+      return;
+    }
 
     const updatedRecord: SavedRecord = {
       id: editingRecordId,
@@ -435,6 +325,7 @@ const App: React.FC = () => {
       boltSize: `${inputs.boltSize}"`,
       boltEa: inputs.boltCount,
       boltMaterial: inputs.boltMaterial,
+      bolting: createBomLine(inputs, results.bolting),
       hasOuterRing: inputs.hasOuterRing,
       hasInnerRing: inputs.hasInnerRing,
       gasketRod: parseFloat(results.gasketOD.toFixed(1)),
@@ -454,6 +345,104 @@ const App: React.FC = () => {
     if (editingRecordId === id) setEditingRecordId(null);
   };
 
+  // Records are stored in mm; metric shows them as saved, inches are converted
+  const recordLength = (mm: number) => (units.length === 'mm' ? mm : formatLength(mm, units.length));
+
+  const openProject = (project: Project) => {
+    storedSnapshot.current = { meta: project.meta, units: project.units, records: project.records };
+    setProjectId(project.id);
+    setProjectMeta(project.meta);
+    setUnits(project.units);
+    setSavedRecords(project.records);
+    setEditingRecordId(null);
+  };
+
+  // State objects are replaced on every edit, so identity tells whether anything changed
+  const isProjectUnchanged = () => {
+    const snapshot = storedSnapshot.current;
+    return !!snapshot && snapshot.meta === projectMeta && snapshot.units === units && snapshot.records === savedRecords;
+  };
+
+  const buildProject = (id: string): Project => ({
+    id,
+    meta: projectMeta,
+    units,
+    records: savedRecords,
+    updatedAt: Date.now()
+  });
+
+  const persistProject = (project: Project) => {
+    storedSnapshot.current = { meta: project.meta, units: project.units, records: project.records };
+    setProjects(prev => prev.map(p => (p.id === project.id ? project : p)));
+    return saveProject(project)
+      .then(() => setSaveStatus('saved'))
+      .catch(() => setSaveStatus('error'));
+  };
+
+  // Reopen the most recently saved project, or start one on first use
+  useEffect(() => {
+    listProjects()
+      .then(stored => {
+        const project = stored[0] ?? createProject({}, DEFAULT_UNITS);
+        setProjects(stored.length > 0 ? stored : [project]);
+        openProject(project);
+        setSaveStatus('saved');
+      })
+      .catch(() => {
+        // IndexedDB can be blocked (e.g. private browsing); keep working in memory
+        const project = createProject({}, DEFAULT_UNITS);
+        setProjects([project]);
+        openProject(project);
+        setSaveStatus('error');
+      });
+  }, []);
+
+  // Autosave shortly after the last edit; opening a project alone does not save it,
+  // so updatedAt stays the time of the last change
+  useEffect(() => {
+    if (!projectId || isProjectUnchanged()) return;
+    setSaveStatus('saving');
+    const timer = setTimeout(() => persistProject(buildProject(projectId)), 500);
+    return () => clearTimeout(timer);
+  }, [projectId, projectMeta, units, savedRecords]);
+
+  // Switching or creating flushes the pending autosave of the current project first
+  const flushProject = () => {
+    if (projectId && !isProjectUnchanged()) persistProject(buildProject(projectId));
+  };
+
+  const handleSelectProject = (id: string) => {
+    const next = projects.find(p => p.id === id);
+    if (!next || id === projectId) return;
+    flushProject();
+    openProject(next);
+  };
+
+  const handleCreateProject = () => {
+    flushProject();
+    const project = createProject({ name: `Project ${projects.length + 1}` }, units);
+    setProjects(prev => [project, ...prev]);
+    openProject(project);
+    persistProject(project);
+  };
+
+  const handleClearRecords = () => {
+    if (!window.confirm(`Remove all ${savedRecords.length} saved record(s) from project "${projectMeta.name}"?`)) return;
+    setSavedRecords([]);
+    setEditingRecordId(null);
+  };
+
+  const handleDeleteProject = () => {
+    if (!projectId) return;
+    if (!window.confirm(`Delete project "${projectMeta.name}" and its ${savedRecords.length} saved record(s)?`)) return;
+
+    const remaining = projects.filter(p => p.id !== projectId);
+    const next = remaining[0] ?? createProject({}, units);
+    deleteProject(projectId).catch(() => setSaveStatus('error'));
+    setProjects(remaining.length > 0 ? remaining : [next]);
+    openProject(next);
+  };
+
   const editRecord = (record: SavedRecord) => {
     setInputs(record.originalInputs);
     setEditingRecordId(record.id);
@@ -473,8 +462,20 @@ const App: React.FC = () => {
               <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">TEMA RCB-11.2 & ASME APP.2 Engineering Calculator</p>
             </div>
           </div>
+          <UnitSelector units={units} onChange={setUnits} />
         </header>
 
+        <ProjectBar
+          projects={projects}
+          activeId={projectId}
+          meta={projectMeta}
+          saveStatus={saveStatus}
+          onSelect={handleSelectProject}
+          onCreate={handleCreateProject}
+          onDelete={handleDeleteProject}
+          onMetaChange={setProjectMeta}
+        />
+
         <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
           <div className="xl:col-span-4">
             <Calculator 
@@ -482,12 +483,35 @@ const App: React.FC = () => {
               onInputChange={handleInputChange} 
               onOptimize={handleOptimize} 
               onResetOptimize={handleResetAndOptimize}
+              onCompareMethods={handleCompareMethods}
               results={results} 
+              units={units}
             />
           </div>
           <div className="xl:col-span-8 space-y-8">
+            {jobProgress && <JobProgressBar label={jobLabel} progress={jobProgress} onCancel={cancelJob} />}
+            {optimizerCandidates && (
+              <OptimizerPanel
+                inputs={inputs}
+                units={units}
+                candidates={optimizerCandidates}
+                fixedSize={optimizerFixedSize}
+                onApply={applyCandidate}
+                onClose={() => setOptimizerCandidates(null)}
+              />
+            )}
+            {methodComparison && (
+              <MethodComparisonPanel
+                inputs={inputs}
+                units={units}
+                comparison={methodComparison}
+                fixedSize={optimizerFixedSize}
+                onApply={applyMethodCandidate}
+                onClose={() => setMethodComparison(null)}
+              />
+            )}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-              <ResultTable inputs={inputs} results={results} />
+              <ResultTable inputs={inputs} results={results} units={units} />
               
               <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm flex flex-col items-center">
                 <div className="flex justify-between items-center mb-4 border-b pb-3 w-full">
@@ -515,7 +539,7 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="p-1">
-                  <FlangeDiagram inputs={inputs} results={results} />
+                  <FlangeDiagram inputs={inputs} results={results} units={units} sequence={tighteningSequence} />
                 </div>
                 
                 <div className="w-full mt-6 bg-slate-900 rounded-3xl p-6 text-white shadow-2xl space-y-4">
@@ -528,8 +552,8 @@ const App: React.FC = () => {
                         <span className="text-[10px] font-black text-sky-400 tracking-widest uppercase">Result B.C.D</span>
                       </div>
                       <span className="text-2xl font-black tabular-nums leading-none flex items-baseline gap-1.5">
-                        {results.finalBCD.toFixed(1)} 
-                        <small className="text-[10px] font-bold opacity-40">MM</small>
+                        {formatLength(results.finalBCD, units.length)} 
+                        <small className="text-[10px] font-bold opacity-40 uppercase">{units.length}</small>
                       </span>
                     </div>
 
@@ -541,8 +565,8 @@ const App: React.FC = () => {
                         <span className="text-[10px] font-black text-amber-400 tracking-widest uppercase">Final Flange O.D</span>
                       </div>
                       <span className="text-2xl font-black tabular-nums leading-none flex items-baseline gap-1.5">
-                        {results.finalOD.toFixed(0)} 
-                        <small className="text-[10px] font-bold opacity-40">MM</small>
+                        {formatLength(results.finalOD, units.length, 0)} 
+                        <small className="text-[10px] font-bold opacity-40 uppercase">{units.length}</small>
                       </span>
                     </div>
                   </div>
@@ -574,6 +598,28 @@ const App: React.FC = () => {
                       </div>
                     </div>
 
+                    <div className={`flex justify-between items-center px-4 py-4 rounded-2xl border transition-all ${rigidity.ok ? 'bg-emerald-500/10 border-emerald-500/20' : 'bg-red-500/10 border-red-500/20'}`}>
+                      <div className="flex items-center gap-4">
+                         <div className={`w-12 h-12 rounded-2xl flex items-center justify-center shadow-lg ${rigidity.ok ? 'bg-emerald-500 shadow-emerald-500/20' : 'bg-red-500 shadow-red-500/20'}`}>
+                           <i className={`fa-solid ${rigidity.ok ? 'fa-check' : 'fa-xmark'} text-xl text-white`}></i>
+                         </div>
+                         <div>
+                            <span className="text-[9px] font-black uppercase tracking-widest text-white/50 block mb-0.5">Rigidity Index (2-14)</span>
+                            <h4 className={`text-sm font-black uppercase tracking-tight ${rigidity.ok ? 'text-emerald-400' : 'text-red-400'}`}>
+                              {!hasFlangeThickness ? 'No Flange Thickness' : rigidity.ok ? 'J ≤ 1.0 OK' : 'J > 1.0 Recheck'}
+                            </h4>
+                         </div>
+                      </div>
+                      <div className="text-right space-y-0.5">
+                        <span className="text-[9px] font-black uppercase tracking-widest text-white/50 block">J Oper / Seat</span>
+                        <span className="text-sm font-black tabular-nums">
+                          <span className={rigidity.operating.ok ? 'text-emerald-400' : 'text-red-400'}>{hasFlangeThickness ? rigidity.operating.j.toFixed(3) : '—'}</span>
+                          <span className="text-white/30"> / </span>
+                          <span className={rigidity.seating.ok ? 'text-emerald-400' : 'text-red-400'}>{hasFlangeThickness ? rigidity.seating.j.toFixed(3) : '—'}</span>
+                        </span>
+                      </div>
+                    </div>
+
                     {inputs.usePcc1Check && (
                       <div className={`flex justify-between items-center px-4 py-4 rounded-2xl border transition-all ${pccStatusInfo.safe ? 'bg-emerald-500/10 border-emerald-500/20' : 'bg-red-500/10 border-red-500/20'}`}>
                         <div className="flex items-center gap-4">
@@ -601,20 +647,33 @@ const App: React.FC = () => {
                     <div className="px-4 py-6 bg-white/5 rounded-2xl border border-white/5 flex flex-col items-center justify-center text-center">
                       <span className="text-[8px] font-black text-white/40 uppercase tracking-widest mb-3">Allowable Bolt Root Area</span>
                       <span className="text-xl font-black text-blue-400 tabular-nums">
-                        {results.totalBoltArea.toFixed(1)} <small className="text-[10px] opacity-70">mm²</small>
+                        {formatArea(results.totalBoltArea, units.area)} <small className="text-[10px] opacity-70">{units.area}</small>
                       </span>
                     </div>
                     <div className="px-4 py-6 bg-white/5 rounded-2xl border border-white/5 flex flex-col items-center justify-center text-center">
                       <span className="text-[8px] font-black text-white/40 uppercase tracking-widest mb-3">Required Bolt Root Area</span>
                       <span className="text-xl font-black text-pink-400 tabular-nums">
-                        {results.requiredBoltArea.toFixed(1)} <small className="text-[10px] opacity-70">mm²</small>
+                        {formatArea(results.requiredBoltArea, units.area)} <small className="text-[10px] opacity-70">{units.area}</small>
                       </span>
                     </div>
                   </div>
+
+                  <div className="flex items-center gap-3 py-1">
+                    <div className="h-px bg-white/10 flex-1"></div>
+                    <span className="text-[8px] font-black text-white/20 uppercase tracking-[0.3em]">Sensitivity</span>
+                    <div className="h-px bg-white/10 flex-1"></div>
+                  </div>
+
+                  <SensitivityTornado inputs={inputs} units={units} />
                 </div>
               </div>
             </div>
-            <BoltLoadTable inputs={inputs} results={results} />
+            <BoltLoadTable inputs={inputs} results={results} pcc1={pccStatusInfo} torque={torque} tensioning={tensioning} elongation={elongation} units={units} />
+            <MonteCarloPanel inputs={inputs} evaluation={evaluation} units={units} result={monteCarloResult} isRunning={!!jobProgress} onRun={handleRunMonteCarlo} />
+            <FlangeStressTable results={results} units={units} />
+            <TighteningSequenceTable inputs={inputs} sequence={tighteningSequence} torque={torque} tensioning={tensioning} units={units} />
+            <LoadCaseTable inputs={inputs} summary={loadCaseSummary} units={units} onInputChange={handleInputChange} />
+            <SweepPanel inputs={inputs} units={units} result={sweepResult} isRunning={!!jobProgress} onRun={handleRunSweep} />
           </div>
         </div>
 
@@ -623,10 +682,13 @@ const App: React.FC = () => {
             <div className="bg-slate-900 px-6 py-4 flex justify-between items-center border-b border-slate-700">
               <h3 className="text-lg font-black text-white flex items-center gap-3 uppercase tracking-tighter">
                 <i className="fa-solid fa-list-check text-sky-400"></i> Calculation Summary List
+                <span className="text-[9px] font-bold text-slate-400 normal-case tracking-normal">
+                  {[projectMeta.client, projectMeta.jobNumber && `Job ${projectMeta.jobNumber}`, projectMeta.exchangerTag, projectMeta.revision && `Rev ${projectMeta.revision}`].filter(Boolean).join(' · ')}
+                </span>
               </h3>
               <div className="flex items-center gap-2">
                  <button 
-                  onClick={() => { setSavedRecords([]); setEditingRecordId(null); }}
+                  onClick={handleClearRecords}
                   className="text-[9px] font-black text-slate-400 hover:text-white uppercase tracking-widest px-3 py-1 border border-slate-700 rounded-md transition-all"
                  >
                    Clear All
@@ -649,7 +711,7 @@ const App: React.FC = () => {
                     <th colSpan={3} className="border border-slate-300 px-2 py-1 uppercase bg-emerald-100/50">FLANGE</th>
                     <th colSpan={4} className="border border-slate-300 px-2 py-1 uppercase bg-pink-100/50">GASKET</th>
                     <th colSpan={2} className="border border-slate-300 px-2 py-1 uppercase bg-emerald-100/50">FLANGE</th>
-                    <th colSpan={3} className="border border-slate-300 px-2 py-1 uppercase bg-slate-100">BOLT</th>
+                    <th colSpan={6} className="border border-slate-300 px-2 py-1 uppercase bg-slate-100">BOLT</th>
                     <th rowSpan={2} className="border border-slate-300 px-2 py-1 uppercase bg-slate-50 min-w-[150px]">TYPE</th>
                     <th rowSpan={3} className="border border-slate-300 px-2 py-1 uppercase bg-slate-50">ACTION</th>
                   </tr>
@@ -666,11 +728,16 @@ const App: React.FC = () => {
                     <th className="border border-slate-300 px-2 py-1 uppercase">SIZE</th>
                     <th className="border border-slate-300 px-2 py-1 uppercase">EA</th>
                     <th className="border border-slate-300 px-2 py-1 uppercase">MATERIAL</th>
+                    <th className="border border-slate-300 px-2 py-1 uppercase">LENGTH</th>
+                    <th className="border border-slate-300 px-2 py-1 uppercase">NUT EA</th>
+                    <th className="border border-slate-300 px-2 py-1 uppercase">WASHER EA</th>
                   </tr>
                   <tr className="bg-slate-50/50">
                     <th colSpan={2} className="border border-slate-300"></th>
-                    <th colSpan={9} className="border border-slate-300 px-2 py-0 text-[8px] italic text-slate-500 font-bold lowercase">(mm)</th>
-                    <th colSpan={4} className="border border-slate-300"></th>
+                    <th colSpan={9} className="border border-slate-300 px-2 py-0 text-[8px] italic text-slate-500 font-bold lowercase">({units.length})</th>
+                    <th colSpan={3} className="border border-slate-300"></th>
+                    <th className="border border-slate-300 px-2 py-0 text-[8px] italic text-slate-500 font-bold lowercase">({units.length})</th>
+                    <th colSpan={3} className="border border-slate-300"></th>
                   </tr>
                 </thead>
                 <tbody>
@@ -678,18 +745,21 @@ const App: React.FC = () => {
                     <tr key={record.id} className={`border-b border-slate-300 transition-colors ${editingRecordId === record.id ? 'bg-indigo-50' : 'hover:bg-slate-50/50'}`}>
                       <td className="border border-slate-300 px-2 py-1.5 text-slate-900">{record.itemNo}</td>
                       <td className="border border-slate-300 px-2 py-1.5 text-slate-900">{record.part}</td>
-                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums font-black text-amber-600">{record.flangeOd}</td>
-                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.id_mm}</td>
-                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums font-black text-sky-600">{record.bcd}</td>
-                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.hasOuterRing ? record.gasketRod : '-'}</td>
-                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.gasketOd}</td>
-                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.gasketId}</td>
-                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.hasInnerRing ? record.gasketRid : '-'}</td>
-                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.g0}</td>
-                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.g1}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums font-black text-amber-600">{recordLength(record.flangeOd)}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{recordLength(record.id_mm)}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums font-black text-sky-600">{recordLength(record.bcd)}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.hasOuterRing ? recordLength(record.gasketRod) : '-'}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{recordLength(record.gasketOd)}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{recordLength(record.gasketId)}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.hasInnerRing ? recordLength(record.gasketRid) : '-'}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{recordLength(record.g0)}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{recordLength(record.g1)}</td>
                       <td className="border border-slate-300 px-2 py-1.5 font-mono">{record.boltSize}</td>
                       <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.boltEa}</td>
                       <td className="border border-slate-300 px-2 py-1.5 text-left text-[8px] leading-tight max-w-[120px] truncate" title={record.boltMaterial}>{record.boltMaterial}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums font-black">{recordLength(record.bolting.studLength)}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.bolting.nutCount}</td>
+                      <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{record.bolting.washerCount || '-'}</td>
                       <td className="border border-slate-300 px-2 py-1.5 text-left text-[8px] leading-tight max-w-[200px] whitespace-normal" title={record.gasketType}>{record.gasketType}</td>
                       <td className="border border-slate-300 px-2 py-1.5">
                         <div className="flex items-center justify-center gap-1">
@@ -702,6 +772,7 @@ const App: React.FC = () => {
                 </tbody>
               </table>
             </div>
+            <BoltingBomTable lines={consolidatedBom} units={units} />
           </section>
         )}
       </div>
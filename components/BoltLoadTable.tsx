@@ -1,96 +1,38 @@
-import React, { useState, useEffect } from 'react';
-import { CalculationResults, FlangeInputs } from '../types';
-import { TEMA_BOLT_DATA, ASME_BOLT_MATERIALS, BOLT_TEMP_STEPS, GASKET_TYPES, GASKET_RING_TABLE, HYDRAULIC_TENSIONING_DATA, API660_PCC1_STRESS_TABLE, ASME_PLATE_MATERIALS } from '../constants';
+import React, { useState } from 'react';
+import { CalculationResults, DisplayUnits, ElongationResults, FlangeInputs, Pcc1Results, TensioningResults, TorqueResults } from '../types';
+import { LUBRICANTS, TEMA_BOLT_DATA, ASME_BOLT_MATERIALS, BOLT_TEMP_STEPS, GASKET_TYPES, GASKET_RING_TABLE, HYDRAULIC_TENSIONING_DATA, API660_PCC1_STRESS_TABLE, ASME_PLATE_MATERIALS } from '../constants';
+import { PSI_TO_MPA } from '../services/engineeringUtils';
+import { formatArea, formatForce, formatLength, formatStress } from '../services/units';
 
 interface Props {
   inputs: FlangeInputs;
   results: CalculationResults;
+  pcc1: Pcc1Results;
+  torque: TorqueResults;
+  tensioning: TensioningResults | null;
+  elongation: ElongationResults;
+  units: DisplayUnits;
 }
 
-type ForceUnit = 'kN' | 'N' | 'lbf' | 'kgf';
 type TabId = 'current' | 'bolts' | 'tensioning' | 'stress' | 'plate_stress' | 'gaskets' | 'rings' | 'pcc1';
 
-export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
+export const BoltLoadTable: React.FC<Props> = ({ inputs, results, pcc1, torque, tensioning, elongation, units }) => {
+  const bolting = results.bolting;
   const [showBackData, setShowBackData] = useState(false);
   const [activeTab, setActiveTab] = useState<TabId>('current');
   
-  const getDefaultForceUnit = (pressureUnit: string): ForceUnit => {
-    switch (pressureUnit) {
-      case 'PSI': return 'lbf';
-      case 'kg/cm²': return 'kgf';
-      case 'MPa':
-      case 'Bar':
-      default: return 'kN';
-    }
-  };
-
-  const [selectedForceUnit, setSelectedForceUnit] = useState<ForceUnit>(getDefaultForceUnit(inputs.pressureUnit));
-
-  useEffect(() => {
-    setSelectedForceUnit(getDefaultForceUnit(inputs.pressureUnit));
-  }, [inputs.pressureUnit]);
-
-  const convertForce = (valueInN: number, unit: ForceUnit): number => {
-    switch (unit) {
-      case 'kN': return valueInN / 1000;
-      case 'lbf': return valueInN * 0.224809;
-      case 'kgf': return valueInN * 0.101972;
-      case 'N':
-      default: return valueInN;
-    }
-  };
-
-  const formatValue = (val: number) => {
-    if (selectedForceUnit === 'N') return val.toLocaleString(undefined, { maximumFractionDigits: 0 });
-    return val.toLocaleString(undefined, { maximumFractionDigits: 1 });
-  };
-
-  // 1. Ag: Gasket Area Calculation
-  const ringArea = (Math.PI / 4) * (Math.pow(results.seatingOD, 2) - Math.pow(results.seatingID, 2));
-  const reducedPassArea = (inputs.passPartAreaReduction / 100) * inputs.passPartitionWidth * inputs.passPartitionLength;
-  const totalAg = ringArea + reducedPassArea;
-
-  // 2. Sbsel: Raw calculated bolt stress
-  const totalBoltRootArea = results.singleBoltArea * inputs.boltCount;
-  const sbSelCalc = totalBoltRootArea > 0 ? (inputs.sgT * totalAg) / totalBoltRootArea : 0;
-
-  // 3. Select Sbsel Logic 
-  const valA = Math.min(sbSelCalc, inputs.sbMax || Infinity);
-  const valB = Math.max(valA, inputs.sbMin || 0);
-  const valC = Math.min(valB, inputs.sfMax || Infinity);
-  const sbSelFinal = Math.min(valA, valB, valC);
-
-  // Pressure unit conversion for Step 6 & Formulas
-  const pMpa = (() => {
-    const p = inputs.designPressure;
-    switch (inputs.pressureUnit) {
-      case 'Bar': return p * 0.1;
-      case 'PSI': return p * 0.00689476;
-      case 'kg/cm²': return p * 0.0980665;
-      default: return p;
-    }
-  })();
-
-  const yMpa = results.gasketY * 0.00689476;
-  const passYMpa = results.passY * 0.00689476;
-
-  // Step 5: Sbsel >= Sgmin-S * [Ag / (Ab * nb)]
-  const step5Threshold = totalBoltRootArea > 0 ? inputs.sgMinS * (totalAg / totalBoltRootArea) : 0;
-  const isStep5Ok = sbSelFinal >= step5Threshold - 0.001;
-
-  // Step 6: Sbsel ≥ (Sgmin-O Ag + pi()/4Pmax GI.D^2)/(g Abnb)
-  const step6Numerator = (inputs.sgMinO * totalAg) + ((Math.PI / 4) * pMpa * Math.pow(results.seatingID, 2));
-  const step6Denominator = (inputs.g || 1) * totalBoltRootArea;
-  const step6Threshold = totalBoltRootArea > 0 ? step6Numerator / step6Denominator : 0;
-  const isStep6Ok = sbSelFinal >= step6Threshold - 0.001;
-
-  // Step 7. Sbsel ≤ Sgmax [Ag/(Abnb)]
-  const step7Threshold = totalBoltRootArea > 0 ? inputs.sgMax * (totalAg / totalBoltRootArea) : Infinity;
-  const isStep7Ok = inputs.sgMax === 0 ? true : (sbSelFinal <= step7Threshold + 0.001);
-
-  // Step 8. Sbsel ≤ Sfmax (g / Φfmax)
-  const step8Threshold = inputs.phiFMax > 0 ? inputs.sfMax * ((inputs.g || 1) / inputs.phiFMax) : Infinity;
-  const isStep8Ok = inputs.phiFMax === 0 ? true : (sbSelFinal <= step8Threshold + 0.001);
+  const {
+    totalAg, totalBoltRootArea, sbSelCalc, valA, valB, valC, sbSelFinal, pMpa,
+    step6Side, step6PMpa, step6Ag, step6SeatingID, step6EndForce, step5Ag, step7Ag,
+    step5Threshold, step6Threshold, step7Threshold, step8Threshold,
+    isStep5Ok, isStep6Ok, isStep7Ok, isStep8Ok, withinBounds
+  } = pcc1;
+
+  // Kellogg equivalent pressure also acts on the gasket load
+  const gasketPressure = pMpa + results.equivalentPressure;
+
+  const yMpa = results.gasketY * PSI_TO_MPA;
+  const passYMpa = results.passY * PSI_TO_MPA;
 
   const currentBoltRef = TEMA_BOLT_DATA.find(b => b.size === inputs.boltSize);
 
@@ -112,13 +54,6 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
               <span className="text-[10px] bg-sky-100 px-2 py-1 rounded text-sky-700 font-black border border-sky-200 uppercase tracking-tight">m = {results.gasketM}</span>
               <span className="text-[10px] bg-amber-100 px-2 py-1 rounded text-amber-700 font-black border border-amber-200 uppercase tracking-tight">y = {results.gasketY} psi</span>
             </div>
-            <select 
-              value={selectedForceUnit} 
-              onChange={(e) => setSelectedForceUnit(e.target.value as ForceUnit)}
-              className="text-[11px] font-black bg-white border border-gray-300 rounded-md px-3 py-1 text-slate-700 focus:ring-2 focus:ring-indigo-500 shadow-sm transition-all"
-            >
-              {['kN', 'N', 'lbf', 'kgf'].map(u => <option key={u} value={u}>{u}</option>)}
-            </select>
           </div>
         </div>
         
@@ -151,7 +86,7 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                       )}
                       <div className="pt-2 border-t border-indigo-50 text-indigo-800 font-black text-[10px] flex justify-between items-baseline">
                         <span className="font-sans opacity-50 uppercase tracking-tighter">Final G</span>
-                        <span className="font-mono">{results.gMeanDia.toFixed(1)} <small className="text-[9px]">mm</small></span>
+                        <span className="font-mono">{formatLength(results.gMeanDia, units.length)} <small className="text-[9px]">{units.length}</small></span>
                       </div>
                     </div>
                   </div>
@@ -161,11 +96,11 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                     <div className="text-[10px] font-mono text-slate-600">
                       <div className="flex justify-between items-center mb-1">
                         <span className="opacity-50 font-sans text-[8px] uppercase">Contact N</span>
-                        <span className="font-bold">{results.nWidth.toFixed(2)} mm</span>
+                        <span className="font-bold">{formatLength(results.nWidth, units.length, 2)} {units.length}</span>
                       </div>
                       <div className="pt-2 border-t border-indigo-50 text-slate-900 font-black text-[10px] flex justify-between items-baseline">
                          <span className="font-sans opacity-50 uppercase tracking-tighter">Final b₀</span>
-                         <span className="font-mono">{results.b0Width.toFixed(2)} <small className="text-[9px]">mm</small></span>
+                         <span className="font-mono">{formatLength(results.b0Width, units.length, 2)} <small className="text-[9px]">{units.length}</small></span>
                       </div>
                     </div>
                   </div>
@@ -177,7 +112,7 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                     </div>
                     <div className="pt-2 border-t border-indigo-50 text-indigo-600 font-black text-[10px] flex justify-between items-baseline font-mono">
                       <span className="font-sans opacity-50 uppercase text-slate-900 tracking-tighter">Final b</span>
-                      <span>{results.bWidth.toFixed(2)} <small className="text-[9px]">mm</small></span>
+                      <span>{formatLength(results.bWidth, units.length, 2)} <small className="text-[9px]">{units.length}</small></span>
                     </div>
                   </div>
                 </div>
@@ -199,12 +134,18 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                       <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
                         <div className="text-[9px] text-slate-400 font-bold uppercase mb-1">Hydrostatic Force (H)</div>
                         <div className="text-[9px] font-mono text-slate-600 mb-2 leading-tight">
-                          0.785 × G² × P <br/>
+                          0.785 × G² × P{results.externalEndForce > 0 && ' + F_ext'} <br/>
                           = 0.785 × {results.gMeanDia.toFixed(1)}² × {pMpa.toFixed(3)} MPa
+                          {results.externalEndForce > 0 && (
+                            <span className="block mt-1 text-rose-600">
+                              + {formatForce(results.externalEndForce, units.force)} {units.force}
+                              {results.equivalentPressure > 0 ? ` (P_eq = ${results.equivalentPressure.toFixed(3)} MPa)` : ' (F_A + 4M_E/G)'}
+                            </span>
+                          )}
                         </div>
                         <div className="flex justify-between items-center pt-1 border-t border-slate-200">
                           <span className="text-[8px] font-bold text-slate-400">RESULT</span>
-                          <span className="font-black text-[11px] text-sky-600">{formatValue(convertForce(results.hForce, selectedForceUnit))} <small className="text-[9px] uppercase">{selectedForceUnit}</small></span>
+                          <span className="font-black text-[11px] text-sky-600">{formatForce(results.hForce, units.force)} <small className="text-[9px] uppercase">{units.force}</small></span>
                         </div>
                       </div>
 
@@ -212,22 +153,22 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                         <div className="text-[9px] text-slate-400 font-bold uppercase mb-1">Gasket Load (H<sub>p</sub>)</div>
                         <div className="text-[9px] font-mono text-slate-600 mb-1 leading-tight">
                           [2·b·π·G·m·P] + [2·P·(w_p·L_p·m_p)] <br/>
-                          = [2 × {results.bWidth.toFixed(2)} × π × {results.gMeanDia.toFixed(1)} × {results.gasketM} × {pMpa.toFixed(3)}]
+                          = [2 × {results.bWidth.toFixed(2)} × π × {results.gMeanDia.toFixed(1)} × {results.gasketM} × {gasketPressure.toFixed(3)}]
                           {inputs.passPartitionWidth > 0 && (
                             <span className="block mt-1">
-                              + [2 × {pMpa.toFixed(3)} × ({inputs.passPartitionWidth} × {inputs.passPartitionLength} × {results.passM})]
+                              + [2 × {gasketPressure.toFixed(3)} × ({inputs.passPartitionWidth} × {inputs.passPartitionLength} × {results.passM})]
                             </span>
                           )}
                         </div>
                         <div className="flex justify-between items-center pt-1 border-t border-slate-200">
                           <span className="text-[8px] font-bold text-slate-400">RESULT</span>
-                          <span className="font-black text-[11px] text-sky-600">{formatValue(convertForce(results.hpForce, selectedForceUnit))} <small className="text-[9px] uppercase">{selectedForceUnit}</small></span>
+                          <span className="font-black text-[11px] text-sky-600">{formatForce(results.hpForce, units.force)} <small className="text-[9px] uppercase">{units.force}</small></span>
                         </div>
                       </div>
 
                       <div className="pt-2 flex justify-between items-center">
                         <span className="text-[10px] font-black text-sky-800">Total W<sub>o</sub></span>
-                        <span className="text-xl font-black text-sky-600">{formatValue(convertForce(results.wm1, selectedForceUnit))}</span>
+                        <span className="text-xl font-black text-sky-600">{formatForce(results.wm1, units.force)}</span>
                       </div>
                     </div>
                   </div>
@@ -250,13 +191,261 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                       </div>
                       <div className="flex justify-between items-center pt-1 border-t border-slate-200">
                         <span className="text-[8px] font-bold text-slate-400">RESULT</span>
-                        <span className="font-black text-[11px] text-amber-600">{formatValue(convertForce(results.wm2, selectedForceUnit))} <small className="text-[9px] uppercase">{selectedForceUnit}</small></span>
+                        <span className="font-black text-[11px] text-amber-600">{formatForce(results.wm2, units.force)} <small className="text-[9px] uppercase">{units.force}</small></span>
                       </div>
                     </div>
 
                     <div className="pt-6 flex justify-between items-center">
                       <span className="text-[10px] font-black text-amber-800">Total W<sub>g</sub></span>
-                      <span className="text-xl font-black text-amber-600">{formatValue(convertForce(results.wm2, selectedForceUnit))}</span>
+                      <span className="text-xl font-black text-amber-600">{formatForce(results.wm2, units.force)}</span>
+                    </div>
+                  </div>
+                </div>
+
+                {!inputs.useHydraulicTensioning && (
+                  <div className="mt-6 bg-white p-5 rounded-xl border border-orange-100 shadow-sm">
+                    <div className="text-[11px] font-black text-orange-800 border-b border-orange-50 pb-2 mb-4 flex justify-between uppercase">
+                      <span>Assembly Torque ({torque.method === 'longForm' ? 'Long Form' : 'T = K·F·d'})</span>
+                      <span className="text-[8px] px-2 py-0.5 rounded font-black bg-orange-100 text-orange-700">
+                        {(LUBRICANTS.find(l => l.id === inputs.lubricant) || LUBRICANTS[0]).label}
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-1 text-[9px] font-mono text-slate-600">
+                        <div className="text-[9px] text-slate-400 font-bold uppercase font-sans mb-1">
+                          Target {torque.stressBasis === 'pcc1' ? 'S_bsel (PCC-1)' : 'W / A_b (App.2)'}
+                        </div>
+                        <div>S_b = {torque.targetStress.toFixed(1)} MPa · F = {formatForce(torque.preload, units.force)} {units.force}/bolt</div>
+                        {torque.method === 'longForm' ? (
+                          <div>
+                            F × [P/2π + μ·d₂/(2cos30°) + μ·Dn/2] <br/>
+                            P = {torque.pitch.toFixed(3)}, d₂ = {torque.pitchDia.toFixed(2)}, Dn = {torque.nutBearingDia.toFixed(1)} mm, μ = {torque.friction.toFixed(2)}
+                          </div>
+                        ) : (
+                          <div>K × F × d = {torque.nutFactor.toFixed(3)} × F × {torque.nominalDia.toFixed(2)} mm</div>
+                        )}
+                        <div className="flex justify-between items-center pt-1 border-t border-slate-200 font-sans">
+                          <span className="text-[8px] font-bold text-slate-400">TORQUE / BOLT (K<sub>eff</sub> {torque.nutFactor.toFixed(3)})</span>
+                          <span className="font-black text-[11px] text-orange-600">
+                            {torque.torqueNm.toFixed(0)} <small className="text-[9px]">N·m</small> · {torque.torqueFtLbf.toFixed(0)} <small className="text-[9px]">ft·lbf</small>
+                          </span>
+                        </div>
+                      </div>
+                      <table className="w-full text-[10px] font-bold self-start">
+                        <thead>
+                          <tr className="text-[8px] text-slate-400 uppercase tracking-widest">
+                            <th className="text-left pb-2">Pass</th>
+                            <th className="text-right pb-2">%</th>
+                            <th className="text-right pb-2">N·m</th>
+                            <th className="text-right pb-2">ft·lbf</th>
+                          </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                          {torque.passes.map(pass => (
+                            <tr key={pass.label} className="border-t border-orange-50">
+                              <td className="py-1.5 font-sans text-slate-600">{pass.label}</td>
+                              <td className="py-1.5 text-right">{pass.percent}</td>
+                              <td className="py-1.5 text-right">{pass.torqueNm.toFixed(0)}</td>
+                              <td className="py-1.5 text-right">{pass.torqueFtLbf.toFixed(0)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
+                {inputs.useHydraulicTensioning && (
+                  <div className="mt-6 bg-white p-5 rounded-xl border border-sky-100 shadow-sm">
+                    <div className="text-[11px] font-black text-sky-800 border-b border-sky-50 pb-2 mb-4 flex justify-between uppercase">
+                      <span>Hydraulic Tensioning</span>
+                      {tensioning && (
+                        <span className={`text-[8px] px-2 py-0.5 rounded font-black ${tensioning.ok ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
+                          {tensioning.ok ? `≤ ${tensioning.maxPressure} BAR` : `EXCEEDS ${tensioning.maxPressure} BAR`}
+                        </span>
+                      )}
+                    </div>
+                    {tensioning ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-1 text-[9px] font-mono text-slate-600">
+                          <div className="text-[9px] text-slate-400 font-bold uppercase font-sans mb-1">
+                            Residual {tensioning.stressBasis === 'pcc1' ? 'S_bsel (PCC-1)' : 'W / A_b (App.2)'}
+                          </div>
+                          <div>S_b = {tensioning.targetStress.toFixed(1)} MPa · F = {formatForce(tensioning.residualLoad, units.force)} {units.force}/bolt</div>
+                          <div>LTF = 1 + d / L_grip = 1 + {(inputs.boltSize * 25.4).toFixed(1)} / {tensioning.gripLength.toFixed(0)} = {tensioning.loadTransferFactor.toFixed(3)}</div>
+                          <div>Tool Area = {tensioning.pressureArea.toLocaleString()} mm²</div>
+                        </div>
+                        <div className="space-y-2">
+                          {[
+                            { label: '100% Coverage', load: tensioning.toolLoad100, pressure: tensioning.pumpPressure100 },
+                            { label: '50% Coverage (1st Pass)', load: tensioning.toolLoad50, pressure: tensioning.pumpPressure50 },
+                          ].map(row => (
+                            <div key={row.label} className="bg-sky-50/60 p-3 rounded-lg border border-sky-100 flex justify-between items-center">
+                              <div>
+                                <span className="block text-[9px] font-black text-sky-700 uppercase">{row.label}</span>
+                                <span className="text-[9px] font-mono text-slate-500">Tool Load {formatForce(row.load, units.force)} {units.force}</span>
+                              </div>
+                              <span className={`text-lg font-black tabular-nums ${row.pressure <= tensioning.maxPressure ? 'text-sky-600' : 'text-red-600'}`}>
+                                {row.pressure.toFixed(0)} <small className="text-[9px]">bar</small>
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="text-[10px] font-bold text-slate-400">No tensioner data for {inputs.boltSize}" bolts.</div>
+                    )}
+                  </div>
+                )}
+
+                {results.jointSides && (
+                  <div className="mt-6 bg-white p-5 rounded-xl border border-teal-100 shadow-sm">
+                    <div className="text-[11px] font-black text-teal-800 border-b border-teal-50 pb-2 mb-4 flex justify-between uppercase">
+                      <span>Tubesheet Joint Sides (Shared Bolting)</span>
+                      <span className="text-[8px] px-2 py-0.5 rounded font-black bg-teal-100 text-teal-700">
+                        GOVERNING: {results.governingSide.toUpperCase()} SIDE
+                      </span>
+                    </div>
+                    <table className="w-full text-[10px] font-bold">
+                      <thead>
+                        <tr className="text-[8px] text-slate-400 uppercase tracking-widest">
+                          <th className="text-left pb-2">Side</th>
+                          <th className="text-right pb-2">P (MPa)</th>
+                          <th className="text-right pb-2">m / y (psi)</th>
+                          <th className="text-right pb-2">b / G ({units.length})</th>
+                          <th className="text-right pb-2">W<sub>m1</sub> ({units.force})</th>
+                          <th className="text-right pb-2">W<sub>m2</sub> ({units.force})</th>
+                          <th className="text-right pb-2">S<sub>b</sub> ({units.stress})</th>
+                          <th className="text-right pb-2">A<sub>m</sub> ({units.area})</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {(['shell', 'tube'] as const).map(side => {
+                          const loads = results.jointSides![side];
+                          const isGoverning = results.governingSide === side;
+                          return (
+                            <tr key={side} className={`border-t border-teal-50 ${isGoverning ? 'text-teal-700' : 'text-slate-600'}`}>
+                              <td className="py-1.5 font-sans font-black uppercase">{side}{isGoverning && <i className="fa-solid fa-star ml-1 text-[8px]"></i>}</td>
+                              <td className="py-1.5 text-right">{loads.pressure.toFixed(3)}</td>
+                              <td className="py-1.5 text-right">{loads.gasketM} / {loads.gasketY}</td>
+                              <td className="py-1.5 text-right">{formatLength(loads.bWidth, units.length, 2)} / {formatLength(loads.gMeanDia, units.length)}</td>
+                              <td className="py-1.5 text-right">{formatForce(loads.wm1, units.force)}</td>
+                              <td className="py-1.5 text-right">{formatForce(loads.wm2, units.force)}</td>
+                              <td className="py-1.5 text-right">{formatStress(loads.boltAllowableStress, units.stress)}</td>
+                              <td className="py-1.5 text-right">{formatArea(loads.requiredBoltArea, units.area, 0)}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="mt-6 bg-white p-5 rounded-xl border border-violet-100 shadow-sm">
+                  <div className="text-[11px] font-black text-violet-800 border-b border-violet-50 pb-2 mb-4 flex justify-between uppercase">
+                    <span>Design Bolt Load (W) & Gasket Stress</span>
+                    <span className={`text-[8px] px-2 py-0.5 rounded font-black ${results.gasketStressOk ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
+                      {results.gasketStressOk ? 'NO CRUSHING' : 'GASKET CRUSHING'}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                      <div className="text-[9px] text-slate-400 font-bold uppercase mb-1">Flange Design Bolt Load</div>
+                      <div className="text-[9px] font-mono text-slate-600 mb-2 leading-tight">
+                        (A<sub>m</sub> + A<sub>b</sub>) × S<sub>a</sub> / 2 <br/>
+                        = ({results.requiredBoltArea.toFixed(0)} + {results.totalBoltArea.toFixed(0)}) × {results.ambientAllowableStress.toFixed(1)} / 2
+                      </div>
+                      <div className="flex justify-between items-center pt-1 border-t border-slate-200">
+                        <span className="text-[8px] font-bold text-slate-400">W</span>
+                        <span className="font-black text-[11px] text-violet-600">{formatForce(results.designBoltLoad, units.force)} <small className="text-[9px] uppercase">{units.force}</small></span>
+                      </div>
+                    </div>
+                    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                      <div className="text-[9px] text-slate-400 font-bold uppercase mb-1">Gasket Seating Stress{results.jointSides && ` · ${results.gasketCrushingSide} side`}</div>
+                      <div className="text-[9px] font-mono text-slate-600 mb-2 leading-tight">
+                        W / [π/4 × (OD² - ID²) + w_p·L_p] <br/>
+                        = W / {results.gasketContactArea.toLocaleString(undefined, { maximumFractionDigits: 0 })} mm²
+                      </div>
+                      <div className="flex justify-between items-center pt-1 border-t border-slate-200">
+                        <span className="text-[8px] font-bold text-slate-400">
+                          S<sub>g</sub> ≤ {results.gasketMaxStress > 0 ? `${formatStress(results.gasketMaxStress, units.stress, 0)} ${units.stress}` : 'NO LIMIT'}
+                        </span>
+                        <span className={`font-black text-[11px] ${results.gasketStressOk ? 'text-violet-600' : 'text-red-600'}`}>{formatStress(results.gasketSeatingStress, units.stress)} <small className="text-[9px]">{units.stress}</small></span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="mt-6 bg-white p-5 rounded-xl border border-indigo-100 shadow-sm">
+                  <div className="text-[11px] font-black text-indigo-800 border-b border-indigo-50 pb-2 mb-4 flex justify-between uppercase">
+                    <span>Bolt Elongation Target</span>
+                    <span className="text-[8px] px-2 py-0.5 rounded font-black bg-indigo-100 text-indigo-700">
+                      {elongation.stressBasis === 'user' ? 'USER σ' : elongation.stressBasis === 'pcc1' ? 'PCC-1 S_bsel' : 'APP.2 W / A_b'}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-1 text-[9px] font-mono text-slate-600">
+                      <div className="text-[9px] text-slate-400 font-bold uppercase font-sans mb-1">ΔL = σ × L_eff / E</div>
+                      <div>σ = {elongation.targetStress.toFixed(1)} MPa · A_t = {elongation.tensileArea.toFixed(1)} mm² · F = {formatForce(elongation.preload, units.force)} {units.force}</div>
+                      <div>L_eff = {elongation.gripLength.toFixed(1)} + 2 × {elongation.nutAllowance.toFixed(1)} = {elongation.effectiveLength.toFixed(1)} mm</div>
+                      <div>E (ambient) = {(elongation.modulus / 1000).toFixed(1)} GPa</div>
+                    </div>
+                    <div className="bg-indigo-50/60 p-3 rounded-lg border border-indigo-100 flex flex-col justify-between">
+                      <div className="flex justify-between items-baseline">
+                        <span className="text-[9px] font-black text-indigo-700 uppercase">Target ΔL</span>
+                        <span className="text-lg font-black tabular-nums text-indigo-600">
+                          {formatLength(elongation.elongation, units.length, 3)} <small className="text-[9px]">{units.length}</small>
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center pt-1 border-t border-indigo-100 text-[9px] font-mono text-slate-600">
+                        <span className="font-sans font-bold text-slate-400">Band (± {elongation.tolerance}%)</span>
+                        <span>
+                          {formatLength(elongation.minElongation, units.length, 3)} – {formatLength(elongation.maxElongation, units.length, 3)} {units.length}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="mt-6 bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+                  <div className="text-[11px] font-black text-slate-700 border-b border-slate-100 pb-2 mb-4 flex justify-between uppercase">
+                    <span>Stud Bolt Length & BOM</span>
+                    <span className={`text-[8px] px-2 py-0.5 rounded font-black ${bolting.sized ? 'bg-slate-100 text-slate-600' : 'bg-red-100 text-red-700'}`}>
+                      {bolting.sized ? <>{inputs.boltSize}" × {formatLength(bolting.studLength, units.length, 0)} {units.length}</> : 'NO FLANGE THICKNESS'}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-1 text-[9px] font-mono text-slate-600">
+                      <div className="text-[9px] text-slate-400 font-bold uppercase font-sans mb-1">Stack & Length</div>
+                      {!bolting.sized ? (
+                        <div className="font-sans font-bold text-red-600">No App. 2 flange thickness: enter t to size the studs.</div>
+                      ) : (
+                        <>
+                          <div>
+                            Stack = {bolting.flangeThickness.toFixed(1)} + {bolting.matingThickness.toFixed(1)}
+                            {bolting.tubesheetThickness > 0 && ` + ${bolting.tubesheetThickness.toFixed(1)}`}
+                            {' '}+ {bolting.gasketCount} × {bolting.gasketThickness.toFixed(1)} = {bolting.stackThickness.toFixed(1)} mm
+                          </div>
+                          <div>L_grip = Stack + 2 × {bolting.washerThickness.toFixed(1)} = {bolting.gripLength.toFixed(1)} mm</div>
+                          <div>L = L_grip + 2 × {bolting.nutHeight.toFixed(1)} + 2 × {bolting.threadProjection.toFixed(1)} = {bolting.calculatedLength.toFixed(1)} mm</div>
+                          <div className="pt-1 border-t border-slate-200 flex justify-between font-sans font-bold">
+                            <span className="text-[8px] text-slate-400">Rounded Up ({bolting.increment} mm)</span>
+                            <span className="font-black text-[11px] text-slate-800">{formatLength(bolting.studLength, units.length, 0)} {units.length}</span>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      {[
+                        { label: 'Stud Bolts', value: bolting.studCount },
+                        { label: 'Heavy Hex Nuts', value: bolting.nutCount },
+                        { label: 'Washers', value: bolting.washerCount },
+                      ].map(item => (
+                        <div key={item.label} className="bg-slate-50 p-3 rounded-lg border border-slate-100 flex flex-col justify-between">
+                          <span className="block text-[8px] font-black text-slate-400 uppercase mb-1">{item.label}</span>
+                          <span className="text-lg font-black tabular-nums text-slate-700">{item.value} <small className="text-[9px] text-slate-400">EA</small></span>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 </div>
@@ -275,6 +464,9 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
               </div>
               PCC-1 Calculation
             </h2>
+            <span className="text-[8px] font-black text-emerald-700 bg-white border border-emerald-200 px-2 py-0.5 rounded uppercase tracking-widest" title="Step results are shown in the selected display units">
+              Derivations in MPa · mm · mm² · N
+            </span>
           </div>
 
           <div className="p-4 space-y-4">
@@ -290,8 +482,8 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                 <div className="flex justify-between items-center pt-1 border-t border-indigo-50">
                   <span className="text-[8px] font-bold text-slate-400 uppercase">Resulting Area</span>
                   <span className="text-[11px] font-black text-indigo-700">
-                    {totalAg.toLocaleString(undefined, { maximumFractionDigits: 0 })}
-                    <small className="text-[9px] ml-0.5 font-bold">mm²</small>
+                    {formatArea(totalAg, units.area, 0)}
+                    <small className="text-[9px] ml-0.5 font-bold">{units.area}</small>
                   </span>
                 </div>
               </div>
@@ -307,8 +499,8 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                 <div className="flex justify-between items-center pt-1 border-t border-indigo-50">
                   <span className="text-[8px] font-bold text-slate-400 uppercase">Calc Value</span>
                   <span className="text-[11px] font-black text-indigo-700">
-                    {sbSelCalc.toFixed(1)}
-                    <small className="text-[9px] ml-0.5 font-bold">MPa</small>
+                    {formatStress(sbSelCalc, units.stress)}
+                    <small className="text-[9px] ml-0.5 font-bold">{units.stress}</small>
                   </span>
                 </div>
               </div>
@@ -325,7 +517,7 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                   </div>
                   <div className="flex justify-between items-center pt-1 border-t border-indigo-50">
                     <span className="text-[8px] font-bold text-slate-400 uppercase">Step 2 Result</span>
-                    <span className="text-[11px] font-black text-indigo-700">{valA.toFixed(1)} MPa</span>
+                    <span className="text-[11px] font-black text-indigo-700">{formatStress(valA, units.stress)} {units.stress}</span>
                   </div>
                 </div>
 
@@ -336,7 +528,7 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                   </div>
                   <div className="flex justify-between items-center pt-1 border-t border-indigo-50">
                     <span className="text-[8px] font-bold text-slate-400 uppercase">Step 3 Result</span>
-                    <span className="text-[11px] font-black text-indigo-700">{valB.toFixed(1)} MPa</span>
+                    <span className="text-[11px] font-black text-indigo-700">{formatStress(valB, units.stress)} {units.stress}</span>
                   </div>
                 </div>
 
@@ -347,7 +539,7 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                   </div>
                   <div className="flex justify-between items-center pt-1 border-t border-indigo-50">
                     <span className="text-[8px] font-bold text-slate-400 uppercase">Step 4 Result</span>
-                    <span className="text-[11px] font-black text-indigo-700">{valC.toFixed(1)} MPa</span>
+                    <span className="text-[11px] font-black text-indigo-700">{formatStress(valC, units.stress)} {units.stress}</span>
                   </div>
                 </div>
 
@@ -355,16 +547,16 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                   <div className="text-[8.5px] font-black text-indigo-700 uppercase tracking-tighter">Sbsel: Final Result</div>
                   <div className="flex justify-end items-center pt-1 border-t border-indigo-700/20">
                     <span className="text-[14px] font-black text-indigo-900 tabular-nums">
-                      {sbSelFinal.toLocaleString(undefined, { maximumFractionDigits: 1 })}
-                      <small className="text-[9px] ml-0.5">MPa</small>
+                      {formatStress(sbSelFinal, units.stress)}
+                      <small className="text-[9px] ml-0.5">{units.stress}</small>
                     </span>
                   </div>
                 </div>
 
                 <div className={`p-3 rounded-lg border shadow-sm space-y-2 flex flex-col justify-between transition-colors ${isStep5Ok ? 'bg-white border-indigo-100' : 'bg-red-50 border-red-200'}`}>
-                  <div className={`text-[8.5px] font-black uppercase tracking-tighter ${isStep5Ok ? 'text-indigo-400' : 'text-red-700'}`}>Step 5. Sbsel ≥ Sgmin-S [Ag/(Abnb)]</div>
+                  <div className={`text-[8.5px] font-black uppercase tracking-tighter ${isStep5Ok ? 'text-indigo-400' : 'text-red-700'}`}>Step 5. Sbsel ≥ Sgmin-S [Ag/(Abnb)]{results.jointSides && ' · larger Ag'}</div>
                   <div className="font-mono text-[9px] text-slate-500 italic leading-tight">
-                    {sbSelFinal.toFixed(1)} ≥ {inputs.sgMinS} × [{totalAg.toFixed(0)} / {totalBoltRootArea.toFixed(0)}] = {step5Threshold.toFixed(1)}
+                    {sbSelFinal.toFixed(1)} ≥ {inputs.sgMinS} × [{step5Ag.toFixed(0)} / {totalBoltRootArea.toFixed(0)}] = {step5Threshold.toFixed(1)}
                   </div>
                   <div className={`flex justify-between items-center pt-1 border-t ${isStep5Ok ? 'border-indigo-50' : 'border-red-200'}`}>
                     <span className="text-[8px] font-bold uppercase opacity-60">Status</span>
@@ -375,9 +567,9 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                 </div>
 
                 <div className={`p-3 rounded-lg border shadow-sm space-y-2 flex flex-col justify-between transition-colors ${isStep6Ok ? 'bg-white border-indigo-100' : 'bg-red-50 border-red-200'}`}>
-                  <div className={`text-[8.5px] font-black uppercase tracking-tighter ${isStep6Ok ? 'text-indigo-400' : 'text-red-700'}`}>Step 6. Sbsel ≥ (Sgmin-O Ag + pi()/4Pmax GI.D^2)/(fraction of gasket x Ab x nb)</div>
+                  <div className={`text-[8.5px] font-black uppercase tracking-tighter ${isStep6Ok ? 'text-indigo-400' : 'text-red-700'}`}>Step 6. Sbsel ≥ (Sgmin-O Ag + pi()/4Pmax GI.D^2 + F_ext)/(fraction of gasket x Ab x nb){results.jointSides && ` · ${step6Side} side`}</div>
                   <div className="font-mono text-[9px] text-slate-500 italic leading-tight">
-                    {sbSelFinal.toFixed(1)} ≥ ({inputs.sgMinO}×{totalAg.toFixed(0)} + (π/4)×{pMpa.toFixed(2)}×{results.seatingID.toFixed(0)}²) / ({(inputs.g || 1)}×{totalBoltRootArea.toFixed(0)}) = {step6Threshold.toFixed(1)}
+                    {sbSelFinal.toFixed(1)} ≥ ({inputs.sgMinO}×{step6Ag.toFixed(0)} + (π/4)×{step6PMpa.toFixed(2)}×{step6SeatingID.toFixed(0)}²{step6EndForce > 0 && ` + ${step6EndForce.toFixed(0)}`}) / ({(inputs.g || 1)}×{totalBoltRootArea.toFixed(0)}) = {step6Threshold.toFixed(1)}
                   </div>
                   <div className={`flex justify-between items-center pt-1 border-t ${isStep6Ok ? 'border-indigo-50' : 'border-red-200'}`}>
                     <span className="text-[8px] font-bold uppercase opacity-60">Status</span>
@@ -388,9 +580,9 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                 </div>
 
                 <div className="bg-white p-3 rounded-lg border border-indigo-100 shadow-sm space-y-2 transition-all">
-                  <div className="text-[8.5px] font-black text-indigo-400 uppercase tracking-tighter">Step 7. Sbsel ≤ Sgmax [Ag/(Abnb)]</div>
+                  <div className="text-[8.5px] font-black text-indigo-400 uppercase tracking-tighter">Step 7. Sbsel ≤ Sgmax [Ag/(Abnb)]{results.jointSides && ' · smaller Ag'}</div>
                   <div className="font-mono text-[10px] text-slate-600">
-                    {sbSelFinal.toFixed(1)} ≤ {inputs.sgMax} × [{totalAg.toFixed(0)} / {totalBoltRootArea.toFixed(0)}] = {step7Threshold === Infinity ? '∞' : step7Threshold.toFixed(1)}
+                    {sbSelFinal.toFixed(1)} ≤ {inputs.sgMax} × [{step7Ag.toFixed(0)} / {totalBoltRootArea.toFixed(0)}] = {step7Threshold === Infinity ? '∞' : step7Threshold.toFixed(1)}
                   </div>
                   <div className="flex justify-between items-center pt-1 border-t border-indigo-50">
                     <span className="text-[8px] font-bold text-slate-400 uppercase">Status</span>
@@ -424,12 +616,12 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                </div>
                <div className="flex items-center gap-1.5">
                  <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Total Bolt Area:</span>
-                 <span className="text-[10px] font-black text-slate-700">{(results.singleBoltArea * inputs.boltCount).toLocaleString(undefined, { maximumFractionDigits: 0 })} mm²</span>
+                 <span className="text-[10px] font-black text-slate-700">{totalBoltRootArea.toLocaleString(undefined, { maximumFractionDigits: 0 })} mm²</span>
                </div>
             </div>
-            <div className={`px-3 py-0.5 rounded-full text-[9px] font-black uppercase tracking-tighter flex items-center gap-1.5 ${sbSelFinal <= inputs.sbMax && sbSelFinal >= inputs.sbMin && isStep5Ok && isStep6Ok && isStep7Ok && isStep8Ok ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
-              <i className={`fa-solid ${sbSelFinal <= inputs.sbMax && sbSelFinal >= inputs.sbMin && isStep5Ok && isStep6Ok && isStep7Ok && isStep8Ok ? 'fa-check-circle' : 'fa-circle-xmark'}`}></i>
-              {sbSelFinal <= inputs.sbMax && sbSelFinal >= inputs.sbMin && isStep5Ok && isStep6Ok && isStep7Ok && isStep8Ok ? 'Stress Within Limit' : 'Check Bounds'}
+            <div className={`px-3 py-0.5 rounded-full text-[9px] font-black uppercase tracking-tighter flex items-center gap-1.5 ${withinBounds ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
+              <i className={`fa-solid ${withinBounds ? 'fa-check-circle' : 'fa-circle-xmark'}`}></i>
+              {withinBounds ? 'Stress Within Limit' : 'Check Bounds'}
             </div>
           </div>
         </div>
@@ -703,6 +895,7 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                       <tr>
                         <th className={tableHeaderClass}>Bolt Size (in)</th>
                         <th className={tableHeaderClass}>B_ten (in)</th>
+                        <th className={tableHeaderClass}>Tool Area (mm²)</th>
                         <th className={tableHeaderClass}>Status</th>
                       </tr>
                     </thead>
@@ -711,6 +904,7 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                         <tr key={i} className={item.size === inputs.boltSize ? "bg-sky-50" : ""}>
                           <td className={`${tableCellClass} font-black`}>{item.size}"</td>
                           <td className={tableCellClass}>{item.B_ten}</td>
+                          <td className={tableCellClass}>{item.pressureArea.toLocaleString()}</td>
                           <td className={tableCellClass}>
                             {item.size === inputs.boltSize ? (
                               <span className="text-[8px] bg-sky-600 text-white px-1.5 py-0.5 rounded-full font-black">ACTIVE</span>
@@ -731,6 +925,7 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                         <th className={tableHeaderClass}>Gasket Material</th>
                         <th className={tableHeaderClass}>Gasket Factor, m</th>
                         <th className={tableHeaderClass}>Min. Design Seating Stress, y <br/><span className="lowercase font-bold opacity-60">MPa (psi)</span></th>
+                        <th className={tableHeaderClass}>Max. Gasket Stress <br/><span className="lowercase font-bold opacity-60">MPa</span></th>
                         <th className={tableHeaderClass}>Facing Sketch</th>
                       </tr>
                     </thead>
@@ -742,6 +937,7 @@ export const BoltLoadTable: React.FC<Props> = ({ inputs, results }) => {
                           <td className={`${tableCellClass} text-center font-bold`}>
                             {(g.y * 0.00689476).toFixed(0)} ({g.y.toLocaleString()})
                           </td>
+                          <td className={`${tableCellClass} text-center`}>{g.maxStress ?? '-'}</td>
                           <td className={`${tableCellClass} text-center italic text-slate-400`}>{g.sketches}</td>
                         </tr>
                       ))}
@@ -0,0 +1,57 @@
+import React from 'react';
+import { BoltingBomLine, DisplayUnits } from '../types';
+import { formatLength } from '../services/units';
+
+interface Props {
+  lines: BoltingBomLine[];
+  units: DisplayUnits;
+}
+
+export const BoltingBomTable: React.FC<Props> = ({ lines, units }) => {
+  const totals = lines.reduce(
+    (sum, line) => ({
+      studs: sum.studs + line.studCount,
+      nuts: sum.nuts + line.nutCount,
+      washers: sum.washers + line.washerCount
+    }),
+    { studs: 0, nuts: 0, washers: 0 }
+  );
+
+  return (
+    <div className="border-t border-slate-300">
+      <div className="bg-slate-100 px-6 py-2 text-[10px] font-black text-slate-600 uppercase tracking-widest flex items-center gap-2">
+        <i className="fa-solid fa-boxes-stacked text-slate-400"></i> Consolidated Bolting BOM
+      </div>
+      <table className="w-full border-collapse border border-slate-300 text-[10px] font-bold text-center">
+        <thead className="bg-white">
+          <tr>
+            <th className="border border-slate-300 px-2 py-1 uppercase bg-slate-50">SIZE</th>
+            <th className="border border-slate-300 px-2 py-1 uppercase bg-slate-50">MATERIAL</th>
+            <th className="border border-slate-300 px-2 py-1 uppercase bg-slate-50">STUD LENGTH ({units.length})</th>
+            <th className="border border-slate-300 px-2 py-1 uppercase bg-slate-50">STUD EA</th>
+            <th className="border border-slate-300 px-2 py-1 uppercase bg-slate-50">HEAVY HEX NUT EA</th>
+            <th className="border border-slate-300 px-2 py-1 uppercase bg-slate-50">WASHER EA</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map(line => (
+            <tr key={`${line.boltSize}-${line.boltMaterial}-${line.studLength}`} className="border-b border-slate-300">
+              <td className="border border-slate-300 px-2 py-1.5 font-mono">{line.boltSize}"</td>
+              <td className="border border-slate-300 px-2 py-1.5 text-left text-[8px]">{line.boltMaterial}</td>
+              <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{units.length === 'mm' ? line.studLength : formatLength(line.studLength, units.length)}</td>
+              <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{line.studCount}</td>
+              <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{line.nutCount}</td>
+              <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{line.washerCount || '-'}</td>
+            </tr>
+          ))}
+          <tr className="bg-slate-50 font-black">
+            <td colSpan={3} className="border border-slate-300 px-2 py-1.5 text-right uppercase">Total</td>
+            <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{totals.studs}</td>
+            <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{totals.nuts}</td>
+            <td className="border border-slate-300 px-2 py-1.5 tabular-nums">{totals.washers || '-'}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
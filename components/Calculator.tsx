@@ -1,16 +1,21 @@
 import React from 'react';
-import { FlangeInputs, CalculationResults } from '../types';
-import { TEMA_BOLT_DATA, GASKET_RING_TABLE, ASME_BOLT_MATERIALS, GASKET_TYPES, ASME_PLATE_MATERIALS } from '../constants';
+import { FlangeInputs, CalculationResults, DisplayUnits } from '../types';
+import { TEMA_BOLT_DATA, GASKET_RING_TABLE, ASME_BOLT_MATERIALS, GASKET_TYPES, ASME_PLATE_MATERIALS, FLANGE_TYPES, G1_RULES, EXTERNAL_LOAD_METHODS, LUBRICANTS, TIGHTENING_PATTERNS, FACING_SKETCHES, HYDRAULIC_TENSIONING_DATA } from '../constants';
+import { resolveHubGeometry } from '../services/flangeEngine';
+import { flangeTypeHasHub } from '../services/appendix2';
+import { formatLength } from '../services/units';
 
 interface Props {
   inputs: FlangeInputs;
   onInputChange: (updatedInputs: FlangeInputs, changedFieldName: string) => void;
   onOptimize?: () => void;
   onResetOptimize?: () => void;
+  onCompareMethods?: () => void;
   results: CalculationResults;
+  units: DisplayUnits;
 }
 
-export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize, onResetOptimize, results }) => {
+export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize, onResetOptimize, onCompareMethods, results, units }) => {
   const updatePcc1Values = (gasketType: string, currentInputs: FlangeInputs) => {
     const typeLower = gasketType.toLowerCase();
     let nextInputs = { ...currentInputs };
@@ -53,7 +58,7 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
         ...nextInputs,
         [name]: (e.target as HTMLInputElement).checked
       };
-    } else if (['tempUnit', 'pressureUnit', 'shellMaterial', 'boltMaterial', 'gasketType', 'passGasketType', 'facingSketch', 'itemNo', 'partName'].includes(name)) {
+    } else if (['tempUnit', 'pressureUnit', 'shellMaterial', 'boltMaterial', 'gasketType', 'passGasketType', 'facingSketch', 'itemNo', 'partName', 'flangeType', 'g1Rule', 'externalLoadMethod', 'lubricant', 'torqueMethod', 'tighteningPattern', 'preferredBoltCounts'].includes(name)) {
       nextInputs = {
         ...nextInputs,
         [name]: value
@@ -64,14 +69,31 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
     } else {
       const val = parseFloat(value) || 0;
       nextInputs = { ...nextInputs, [name]: val };
-      if (name === 'g0') {
-        nextInputs.g1 = Math.ceil(val * 1.3 / 3 + val);
-      }
+    }
+
+    if (!nextInputs.lockG1 && ['g0', 'hubLength', 'hubTaper', 'g1Rule', 'g1MinRatio', 'flangeType'].includes(name)) {
+      nextInputs.g1 = resolveHubGeometry(nextInputs).g1;
     }
 
     onInputChange(nextInputs, name);
   };
 
+  const toggleLockG1 = () => {
+    const nextInputs = { ...inputs, lockG1: !inputs.lockG1 };
+    if (!nextInputs.lockG1) nextInputs.g1 = resolveHubGeometry(nextInputs).g1;
+    onInputChange(nextInputs, 'lockG1');
+  };
+
+  const handleTubeSideChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    const isText = name === 'gasketType' || name === 'passGasketType' || name === 'facingSketch';
+    const nextInputs = {
+      ...inputs,
+      tubeSide: { ...inputs.tubeSide, [name]: isText ? value : (parseFloat(value) || 0) }
+    };
+    onInputChange(nextInputs, 'tubeSide');
+  };
+
   const toggleManualMode = () => {
     onInputChange({ ...inputs, useManualOverride: !inputs.useManualOverride }, 'useManualOverride');
   };
@@ -107,6 +129,7 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
       manualY: 0,
       manualPassM: 0,
       manualPassY: 0,
+      manualGasketMaxStress: 0,
       manualSeatingID: 0,
       manualSeatingOD: 0,
       actualBCD: 0,
@@ -274,6 +297,27 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
             </div>
           </div>
 
+          <div className="pt-2 grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass} title="Tension positive; compression is ignored">Axial Force (kN)</label>
+              <input type="number" name="externalAxialForce" value={inputs.externalAxialForce} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Bending Moment (kN·m)</label>
+              <input type="number" name="externalMoment" value={inputs.externalMoment} onChange={handleChange} className={inputClass} />
+            </div>
+          </div>
+          {(inputs.externalAxialForce > 0 || inputs.externalMoment !== 0) && (
+            <div>
+              <label className={labelClass}>External Load Method</label>
+              <select name="externalLoadMethod" value={inputs.externalLoadMethod} onChange={handleChange} className={inputClass}>
+                {EXTERNAL_LOAD_METHODS.map(method => (
+                  <option key={method.id} value={method.id}>{method.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="pt-2">
             <label className={labelClass}>Shell Material</label>
             <select name="shellMaterial" value={inputs.shellMaterial} onChange={handleChange} className={`${inputClass} border-sky-200 bg-sky-50/20`}>
@@ -295,13 +339,7 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
           <div className="pt-2">
             <label className={labelClass}>Facing Sketch (Div.2 Tab. 14.16.3)</label>
             <select name="facingSketch" value={inputs.facingSketch} onChange={handleChange} className={`${inputClass} font-bold text-sky-700`}>
-              {[
-                "1a: Flat Face / Groove",
-                "1b: Flat Face",
-                "1c: Tongue & Groove",
-                "1d: Flat Face w/ Nubbin",
-                "2: Ring Joint"
-              ].map(sk => (
+              {FACING_SKETCHES.map(sk => (
                 <option key={sk} value={sk}>{sk}</option>
               ))}
             </select>
@@ -324,6 +362,115 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
           </div>
         </section>
 
+        <section className="space-y-3 bg-teal-50 p-4 rounded-lg border border-teal-100 shadow-sm">
+          <h3 className="text-xs font-black text-teal-700 border-l-4 border-teal-500 pl-2 mb-3 uppercase tracking-tighter flex justify-between items-center">
+            <span>Tube Side (Tubesheet Joint)</span>
+            <button 
+              onClick={() => onInputChange({ ...inputs, useTwoSidedJoint: !inputs.useTwoSidedJoint }, 'useTwoSidedJoint')}
+              className={`text-[9px] px-3 py-1 rounded-full font-black flex items-center gap-1 transition-all active:scale-95 shadow-sm ${
+                inputs.useTwoSidedJoint ? 'bg-teal-600 hover:bg-teal-700 text-white' : 'bg-white text-slate-400 border border-slate-200'
+              }`}
+            >
+              <i className={`fa-solid ${inputs.useTwoSidedJoint ? 'fa-toggle-on' : 'fa-toggle-off'} text-[9px]`}></i> TWO-SIDED
+            </button>
+          </h3>
+
+          {inputs.useTwoSidedJoint && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Temp ({inputs.tempUnit})</label>
+                  <input type="number" name="designTemp" value={inputs.tubeSide.designTemp} onChange={handleTubeSideChange} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Pressure ({inputs.pressureUnit})</label>
+                  <input type="number" name="designPressure" value={inputs.tubeSide.designPressure} onChange={handleTubeSideChange} className={inputClass} />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Gasket Type (Tube Side)</label>
+                <select name="gasketType" value={inputs.tubeSide.gasketType} onChange={handleTubeSideChange} className={inputClass}>
+                  {GASKET_TYPES.map(g => (
+                    <option key={g.id} value={g.id}>{g.id}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass} title="Tube side gasket seating width (0 = same as shell side)">Seating N (mm)</label>
+                  <input type="number" name="gasketSeatingWidth" value={inputs.tubeSide.gasketSeatingWidth} onChange={handleTubeSideChange} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Facing Sketch</label>
+                  <select name="facingSketch" value={inputs.tubeSide.facingSketch} onChange={handleTubeSideChange} className={inputClass}>
+                    <option value="">Same as shell side</option>
+                    {FACING_SKETCHES.map(sk => (
+                      <option key={sk} value={sk}>{sk}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Gasket Type (Tube Side Pass part)</label>
+                <select name="passGasketType" value={inputs.tubeSide.passGasketType} onChange={handleTubeSideChange} className={`${inputClass} border-amber-200 bg-amber-50/20`}>
+                  {GASKET_TYPES.map(g => (
+                    <option key={g.id} value={g.id}>{g.id}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Pass Part W (mm)</label>
+                  <input type="number" name="passPartitionWidth" value={inputs.tubeSide.passPartitionWidth} onChange={handleTubeSideChange} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Pass Part L(mm)</label>
+                  <input type="number" name="passPartitionLength" value={inputs.tubeSide.passPartitionLength} onChange={handleTubeSideChange} className={inputClass} />
+                </div>
+              </div>
+            </>
+          )}
+        </section>
+
+        <section className="space-y-3 bg-indigo-50/50 p-4 rounded-lg border border-indigo-100 shadow-sm">
+          <h3 className="text-xs font-black text-indigo-700 border-l-4 border-indigo-500 pl-2 mb-3 uppercase tracking-tighter">Optimizer Rules</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass} title="Candidates below this bolt load margin are rejected">Min Margin (%)</label>
+              <input type="number" name="optimizerMinMargin" value={inputs.optimizerMinMargin} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} title="Studs and nuts, used for the bolting cost objective">Bolting Cost (/kg)</label>
+              <input type="number" name="boltingCostPerKg" value={inputs.boltingCostPerKg} onChange={handleChange} className={inputClass} />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Multiple Of</label>
+              <select name="boltCountMultiple" value={inputs.boltCountMultiple} onChange={handleChange} className={inputClass}>
+                <option value={4}>4</option>
+                <option value={8}>8</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Min EA</label>
+              <input type="number" name="minBoltCount" value={inputs.minBoltCount} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Max EA</label>
+              <input type="number" name="maxBoltCount" value={inputs.maxBoltCount} onChange={handleChange} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass} title="Comma-separated; overrides the multiple rule when given">Preferred Counts</label>
+            <input type="text" name="preferredBoltCounts" value={inputs.preferredBoltCounts} onChange={handleChange} placeholder="e.g. 16, 20, 24, 32" className={inputClass} />
+          </div>
+          <div className="flex items-center gap-2">
+            <input type="checkbox" name="straddlePassLanes" checked={inputs.straddlePassLanes} onChange={handleChange} className="w-4 h-4 text-indigo-600" />
+            <label className={`${labelClass} mb-0`}>Straddle Pass Partition Lanes</label>
+          </div>
+        </section>
+
         <section className="space-y-3 bg-slate-50 p-4 rounded-lg border border-slate-100">
           <h3 className="text-xs font-black text-slate-500 border-l-4 border-slate-400 pl-2 mb-3 uppercase tracking-tighter flex justify-between items-center">
             <span>Shell & Hub Geometry</span>
@@ -341,6 +488,13 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
               >
                 <i className="fa-solid fa-rotate-left text-[7px]"></i> RESET
               </button>
+              <button 
+                onClick={onCompareMethods}
+                title="Run the search for torque and hydraulic tensioning side by side"
+                className="text-[9px] bg-sky-600 hover:bg-sky-700 text-white px-3 py-1 rounded-full font-black flex items-center gap-1 transition-all active:scale-95 shadow-sm"
+              >
+                <i className="fa-solid fa-code-compare text-[7px]"></i> VS
+              </button>
             </div>
           </h3>
           <div className="grid grid-cols-2 gap-4">
@@ -359,17 +513,123 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
               <input type="number" name="g0" value={inputs.g0} onChange={handleChange} className={inputClass} />
             </div>
             <div>
-              <label className={labelClass} title="Auto-calculated: roundup(g0 * 1.3 / 3 + g0)">g1 (mm) <i className="fa-solid fa-calculator ml-1 text-sky-500 text-[8px]"></i></label>
+              <label className={`${labelClass} flex justify-between items-center`}>
+                <span title={inputs.lockG1 ? 'Locked: entered g1 is kept when g0 changes' : `Auto-calculated: ${G1_RULES.find(r => r.id === inputs.g1Rule)?.label}`}>
+                  g1 (mm) <i className={`fa-solid ${inputs.lockG1 ? 'fa-pen' : 'fa-calculator'} ml-1 text-sky-500 text-[8px]`}></i>
+                </span>
+                <button 
+                  onClick={toggleLockG1}
+                  title={inputs.lockG1 ? 'Unlock g1 (follow rule)' : 'Lock g1'}
+                  className={`text-[9px] ${inputs.lockG1 ? 'text-amber-600' : 'text-slate-300 hover:text-slate-500'}`}
+                >
+                  <i className={`fa-solid ${inputs.lockG1 ? 'fa-lock' : 'fa-lock-open'}`}></i>
+                </button>
+              </label>
+              {inputs.lockG1 ? (
+                <input type="number" name="g1" value={inputs.g1} onChange={handleChange} className={`${inputClass} border-amber-200 bg-amber-50/20 font-bold`} />
+              ) : (
+                <input 
+                  type="number" 
+                  name="g1" 
+                  value={inputs.g1.toFixed(0)} 
+                  readOnly 
+                  className={`${inputClass} bg-slate-100 border-dashed cursor-not-allowed font-bold text-sky-700`} 
+                />
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Flange Type (App.2 Fig. 2-4)</label>
+            <select name="flangeType" value={inputs.flangeType} onChange={handleChange} className={`${inputClass} font-bold text-violet-700`}>
+              {FLANGE_TYPES.map(type => (
+                <option key={type.id} value={type.id}>{type.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Flange t (mm)</label>
               <input 
                 type="number" 
-                name="g1" 
-                value={inputs.g1.toFixed(0)} 
-                readOnly 
-                className={`${inputClass} bg-slate-100 border-dashed cursor-not-allowed font-bold text-sky-700`} 
+                name="flangeThickness" 
+                value={inputs.flangeThickness} 
+                onChange={handleChange} 
+                placeholder={results.flangeDesign.solved ? `Min: ${results.flangeDesign.minThickness.toFixed(1)}` : 'No solution'}
+                className={inputClass} 
               />
             </div>
+            {flangeTypeHasHub(inputs.flangeType) && (
+              <div>
+                <label className={labelClass}>Hub Length h (mm)</label>
+                <input 
+                  type="number" 
+                  name="hubLength" 
+                  value={inputs.hubLength} 
+                  onChange={handleChange} 
+                  placeholder={`Auto: ${results.flangeDesign.hubLength.toFixed(1)}`}
+                  className={inputClass} 
+                />
+              </div>
+            )}
+            {inputs.flangeType === 'lapJoint' && (
+              <div>
+                <label className={labelClass} title="Diameter of the lap / stub-end contact face reaction">Lap Contact G1 (mm)</label>
+                <input 
+                  type="number" 
+                  name="lapContactDia" 
+                  value={inputs.lapContactDia} 
+                  onChange={handleChange} 
+                  placeholder={`Auto: ${results.flangeDesign.lapContactDia.toFixed(1)}`}
+                  className={inputClass} 
+                />
+              </div>
+            )}
           </div>
 
+          {flangeTypeHasHub(inputs.flangeType) && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className={labelClass}>Min g1 Rule</label>
+                <select name="g1Rule" value={inputs.g1Rule} onChange={handleChange} disabled={inputs.lockG1} className={`${inputClass} disabled:opacity-50`}>
+                  {G1_RULES.map(rule => (
+                    <option key={rule.id} value={rule.id}>{rule.label}</option>
+                  ))}
+                </select>
+                {results.hubGeometry.warning && (
+                  <p className="text-[8px] font-bold text-amber-600 mt-1 leading-tight">{results.hubGeometry.warning}</p>
+                )}
+              </div>
+              <div>
+                <label className={labelClass}>Taper (1:n)</label>
+                <input type="number" name="hubTaper" value={inputs.hubTaper} onChange={handleChange} className={inputClass} />
+              </div>
+              {inputs.g1Rule === 'ratio' && (
+                <div>
+                  <label className={labelClass}>Min g1 / g0</label>
+                  <input type="number" step="0.05" name="g1MinRatio" value={inputs.g1MinRatio} onChange={handleChange} disabled={inputs.lockG1} className={`${inputClass} disabled:opacity-50`} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {inputs.flangeType === 'reverse' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass} title="Inside diameter of the reverse flange ring">Reverse Bore B' (mm)</label>
+                <input 
+                  type="number" 
+                  name="reverseBoreDia" 
+                  value={inputs.reverseBoreDia} 
+                  onChange={handleChange} 
+                  placeholder={`Auto: ${results.flangeDesign.reverseBoreDia.toFixed(1)}`}
+                  className={inputClass} 
+                />
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end pt-1">
             <button 
               onClick={resetGasketStandard}
@@ -434,6 +694,17 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass} title="Horizontal pass partition lanes crossing the bolt circle">Pass Lanes (EA)</label>
+              <input type="number" name="passLaneCount" value={inputs.passLaneCount} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} title="Distance between lane centerlines">Lane Pitch (mm)</label>
+              <input type="number" name="passLanePitch" value={inputs.passLanePitch} onChange={handleChange} disabled={inputs.passLaneCount < 2} className={`${inputClass} disabled:opacity-50`} />
+            </div>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-1">
             <div className="space-y-2">
               <div className="flex items-center gap-2">
@@ -492,6 +763,113 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
               {inputs.useHydraulicTensioning && <i className="fa-solid fa-circle-check ml-auto text-xs"></i>}
             </button>
           </div>
+          {inputs.useHydraulicTensioning && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass} title="Hydraulic area from the tool data sheet (0 = generic table value)">Tensioner Area (mm²)</label>
+                <input
+                  type="number"
+                  name="tensionerPressureArea"
+                  value={inputs.tensionerPressureArea}
+                  placeholder={HYDRAULIC_TENSIONING_DATA.find(t => t.size === inputs.boltSize)?.pressureArea.toString() ?? '-'}
+                  onChange={handleChange}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass} title="First-half overload for 50% coverage, from the tool supplier's procedure (0 = 1.1)">50% Coverage Factor</label>
+                <input type="number" step="0.01" name="coverage50Factor" value={inputs.coverage50Factor} placeholder="1.10" onChange={handleChange} className={inputClass} />
+              </div>
+            </div>
+          )}
+          {!inputs.useHydraulicTensioning && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                <label className={labelClass}>Lubricant (Torque)</label>
+                <select name="lubricant" value={inputs.lubricant} onChange={handleChange} className={inputClass}>
+                  {LUBRICANTS.map(lub => (
+                    <option key={lub.id} value={lub.id}>{lub.label} (K {lub.nutFactor.toFixed(2)}, μ {lub.friction.toFixed(2)})</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Torque Formula</label>
+                <select name="torqueMethod" value={inputs.torqueMethod} onChange={handleChange} className={inputClass}>
+                  <option value="nutFactor">T = K·F·d</option>
+                  <option value="longForm">Long Form (μ, P, Dn)</option>
+                </select>
+              </div>
+              {inputs.torqueMethod === 'nutFactor' && (
+                <div>
+                  <label className={labelClass}>Nut Factor K</label>
+                  <input 
+                    type="number" 
+                    step="0.01" 
+                    name="manualNutFactor" 
+                    value={inputs.manualNutFactor} 
+                    placeholder={(LUBRICANTS.find(l => l.id === inputs.lubricant) || LUBRICANTS[0]).nutFactor.toFixed(2)}
+                    onChange={handleChange} 
+                    className={inputClass} 
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>Tightening Pattern</label>
+            <select name="tighteningPattern" value={inputs.tighteningPattern} onChange={handleChange} className={inputClass}>
+              {TIGHTENING_PATTERNS.map(pattern => (
+                <option key={pattern.id} value={pattern.id}>{pattern.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass} title="Residual bolt stress for elongation control (0 = PCC-1 Sbsel or W / Ab)">Elongation σ (MPa)</label>
+              <input type="number" name="elongationTargetStress" value={inputs.elongationTargetStress} onChange={handleChange} placeholder="Auto" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Elongation Tol. (± %)</label>
+              <input type="number" name="elongationTolerance" value={inputs.elongationTolerance} onChange={handleChange} className={inputClass} />
+            </div>
+          </div>
+        </section>
+
+        <section className="space-y-3 bg-slate-50 p-4 rounded-lg border border-slate-100">
+          <h3 className="text-xs font-black text-slate-500 border-l-4 border-slate-400 pl-2 mb-3 uppercase tracking-tighter flex justify-between items-center">
+            <span>Stud Bolting</span>
+            <span className="text-[9px] bg-slate-200 text-slate-600 px-2 py-0.5 rounded font-black tabular-nums">L = {results.bolting.sized ? `${formatLength(results.bolting.studLength, units.length, 0)} ${units.length}` : '—'}</span>
+          </h3>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass} title="Mating flange or channel flange thickness">Mating t (mm)</label>
+              <input type="number" name="matingFlangeThickness" value={inputs.matingFlangeThickness} onChange={handleChange} placeholder={`Same: ${results.bolting.flangeThickness.toFixed(0)}`} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} title="Tubesheet clamped between the flanges (0 = none)">Tubesheet (mm)</label>
+              <input type="number" name="tubesheetThickness" value={inputs.tubesheetThickness} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} title="Compressed thickness per gasket">Gasket (mm)</label>
+              <input type="number" step="0.1" name="gasketThickness" value={inputs.gasketThickness} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Nut Height (mm)</label>
+              <input type="number" name="nutHeight" value={inputs.nutHeight} onChange={handleChange} placeholder={`Heavy Hex: ${(inputs.boltSize * 25.4).toFixed(1)}`} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Washer (mm)</label>
+              <input type="number" step="0.1" name="washerThickness" value={inputs.washerThickness} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} title="Thread projection beyond each nut">Projection (mm)</label>
+              <input type="number" name="threadProjection" value={inputs.threadProjection} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass} title="Stud lengths are rounded up to this increment">Increment (mm)</label>
+              <input type="number" name="studLengthIncrement" value={inputs.studLengthIncrement} onChange={handleChange} className={inputClass} />
+            </div>
+          </div>
         </section>
 
         <section className="space-y-3 bg-sky-50/50 p-4 rounded-lg border border-sky-100 shadow-sm relative overflow-hidden">
@@ -657,6 +1035,20 @@ export const Calculator: React.FC<Props> = ({ inputs, onInputChange, onOptimize,
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass} title="Gasket crushing limit on the seating area">Gasket Max Sg (MPa)</label>
+                  <input 
+                    type="number" 
+                    name="manualGasketMaxStress" 
+                    value={inputs.manualGasketMaxStress} 
+                    placeholder={results.gasketMaxStress > 0 ? results.gasketMaxStress.toString() : 'No Limit'}
+                    onChange={handleChange} 
+                    className={inputClass} 
+                  />
+                </div>
+              </div>
+
               <div className="pt-2">
                 <label className={labelClass}>Seating ID/OD</label>
                 <div className="grid grid-cols-2 gap-2">
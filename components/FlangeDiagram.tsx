@@ -1,14 +1,18 @@
 import React from 'react';
-import { CalculationResults, FlangeInputs } from '../types';
+import { CalculationResults, DisplayUnits, FlangeInputs, TighteningSequence } from '../types';
+import { boltAngle, getPassLaneOffsets } from '../services/boltLayout';
+import { formatLength } from '../services/units';
 
 interface Props {
   inputs: FlangeInputs;
   results: CalculationResults;
+  units: DisplayUnits;
+  sequence?: TighteningSequence;
 }
 
-export const FlangeDiagram: React.FC<Props> = ({ inputs, results }) => {
+export const FlangeDiagram: React.FC<Props> = ({ inputs, results, units, sequence }) => {
   const size = 260; 
-  const padding = 15; 
+  const padding = sequence ? 24 : 15; // Room for bolt numbers outside the O.D
   const centerX = size / 2;
   const centerY = size / 2;
   
@@ -30,13 +34,21 @@ export const FlangeDiagram: React.FC<Props> = ({ inputs, results }) => {
   };
 
   const bolts = Array.from({ length: inputs.boltCount }).map((_, i) => {
-    const angle = (i * 360 / inputs.boltCount - 90) * (Math.PI / 180);
+    const angle = boltAngle(i, inputs.boltCount);
     return {
-      x: centerX + rBCD * Math.cos(angle),
-      y: centerY + rBCD * Math.sin(angle)
+      x: centerX + rBCD * Math.sin(angle),
+      y: centerY - rBCD * Math.cos(angle),
+      labelX: centerX + (rOD + 9) * Math.sin(angle),
+      labelY: centerY - (rOD + 9) * Math.cos(angle),
+      onLane: results.passLaneBolts.includes(i + 1)
     };
   });
 
+  const lanes = getPassLaneOffsets(inputs)
+    .map(offset => offset * scale)
+    .filter(offset => Math.abs(offset) < rOD)
+    .map(offset => ({ y: centerY - offset, halfChord: Math.sqrt(rOD * rOD - offset * offset) }));
+
   return (
     <div className="flex flex-col items-center">
       <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`} className="drop-shadow-xl">
@@ -75,13 +87,32 @@ export const FlangeDiagram: React.FC<Props> = ({ inputs, results }) => {
 
         <circle cx={centerX} cy={centerY} r={rBCD} fill="none" stroke="#0284c7" strokeWidth="1" strokeDasharray="6 4" opacity="0.5" />
 
+        {lanes.map((lane, i) => (
+          <line key={`lane-${i}`} x1={centerX - lane.halfChord} y1={lane.y} x2={centerX + lane.halfChord} y2={lane.y} stroke="#f59e0b" strokeWidth="1" strokeDasharray="8 3 2 3" />
+        ))}
+
         {bolts.map((bolt, i) => (
           <g key={`bolt-${i}`}>
-             <circle cx={bolt.x} cy={bolt.y} r={Math.max(1.2, 3 * scale * 8)} fill="#334155" />
+             <circle cx={bolt.x} cy={bolt.y} r={Math.max(1.2, 3 * scale * 8)} fill={bolt.onLane ? '#dc2626' : sequence?.stepOfBolt[i + 1] === 1 ? '#0284c7' : '#334155'} />
              <circle cx={bolt.x - 0.5} cy={bolt.y - 0.5} r={Math.max(0.4, 1.2 * scale * 8)} fill="#94a3b8" opacity="0.3" />
           </g>
         ))}
 
+        {sequence && bolts.map((bolt, i) => (
+          <text
+            key={`label-${i}`}
+            x={bolt.labelX}
+            y={bolt.labelY}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={inputs.boltCount > 32 ? 6 : 8}
+            fontWeight="900"
+            fill={sequence.stepOfBolt[i + 1] === 1 ? '#0284c7' : '#475569'}
+          >
+            {i + 1}
+          </text>
+        ))}
+
         <line x1={centerX - 6} y1={centerY} x2={centerX + 6} y2={centerY} stroke="#64748b" strokeWidth="1" opacity="0.5" />
         <line x1={centerX} y1={centerY - 6} x2={centerX} y2={centerY + 6} stroke="#64748b" strokeWidth="1" opacity="0.5" />
       </svg>
@@ -91,6 +122,23 @@ export const FlangeDiagram: React.FC<Props> = ({ inputs, results }) => {
         <div className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded bg-sky-500"></span> Seating Element</div>
         <div className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded bg-slate-400"></span> Ring Metal</div>
         <div className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-full bg-slate-700"></span> Bolt Head</div>
+        {lanes.length > 0 && <div className="flex items-center gap-1.5"><span className="w-2.5 h-0.5 bg-amber-500"></span> Pass Lane</div>}
+        {results.passLaneBolts.length > 0 && <div className="flex items-center gap-1.5 text-red-600"><span className="w-2.5 h-2.5 rounded-full bg-red-600"></span> On Lane: {results.passLaneBolts.join(', ')}</div>}
+        {sequence && <div className="flex items-center gap-1.5 col-span-2"><span className="w-2.5 h-2.5 rounded-full bg-sky-600"></span> Step 1 Bolts (Numbered Clockwise)</div>}
+      </div>
+
+      <div className="mt-3 grid grid-cols-4 gap-2 w-full text-center">
+        {[
+          { label: 'O.D', val: formatLength(results.finalOD, units.length, 0) },
+          { label: 'B.C.D', val: formatLength(results.finalBCD, units.length) },
+          { label: 'Seat O.D', val: formatLength(results.seatingOD, units.length) },
+          { label: 'Seat I.D', val: formatLength(results.seatingID, units.length) },
+        ].map(item => (
+          <div key={item.label} className="bg-slate-50 rounded border border-slate-100 px-1 py-1">
+            <span className="block text-[7px] font-black text-slate-400 uppercase tracking-widest">{item.label} ({units.length})</span>
+            <span className="text-[10px] font-black text-slate-700 tabular-nums">{item.val}</span>
+          </div>
+        ))}
       </div>
     </div>
   );
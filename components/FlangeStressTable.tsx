@@ -0,0 +1,164 @@
+import React from 'react';
+import { CalculationResults, DisplayUnits, FlangeStressCase } from '../types';
+import { FLANGE_TYPES } from '../constants';
+import { MAX_SEARCH_THICKNESS } from '../services/appendix2';
+import { convertTorque, formatForce, formatLength, formatStress } from '../services/units';
+
+interface Props {
+  results: CalculationResults;
+  units: DisplayUnits;
+}
+
+export const FlangeStressTable: React.FC<Props> = ({ results, units }) => {
+  const design = results.flangeDesign;
+  const typeLabel = FLANGE_TYPES.find(type => type.id === design.flangeType)?.label || design.flangeType;
+  const isLoose = design.analysisKind !== 'integral';
+  const isReverse = design.flangeType === 'reverse';
+
+  // Flange moments are shown a thousand times larger than the torque unit (kN·m or kip·ft)
+  const momentUnit = units.torque === 'N·m' ? 'kN·m' : 'kip·ft';
+  const formatMoment = (valueInNmm: number) => (convertTorque(valueInNmm / 1000, units.torque) / 1000).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+  const loadRows = [
+    { label: 'H_D (End Force)', force: design.hdForce, arm: design.hdArm, moment: design.mdMoment, momentLabel: 'M_D' },
+    { label: 'H_T (Face Force)', force: design.htForce, arm: design.htArm, moment: design.mtMoment, momentLabel: 'M_T' },
+    { label: 'H_G (Gasket Load)', force: design.hgForce, arm: design.hgArm, moment: design.mgMoment, momentLabel: 'M_G' },
+  ];
+
+  const factors = [
+    { label: isReverse ? "K = A/B'" : 'K = A/B', val: design.kRatio.toFixed(4) },
+    { label: 'h0', val: `${formatLength(design.h0, units.length, 2)} ${units.length}` },
+    { label: 'h (Hub)', val: `${formatLength(design.hubLength, units.length)} ${units.length}` },
+    { label: isLoose ? 'F_L' : 'F', val: design.factorF.toFixed(4) },
+    { label: isLoose ? 'V_L' : 'V', val: design.factorV.toFixed(4) },
+    { label: 'f', val: design.factorSmallF.toFixed(4) },
+    { label: 'e', val: design.factorE.toFixed(5) },
+    { label: 'd', val: design.factorD.toLocaleString(undefined, { maximumFractionDigits: 0 }) },
+    { label: isReverse ? 'Y_r' : 'Y', val: design.factorY.toFixed(4) },
+    { label: isReverse ? 'T_r' : 'T', val: design.factorT.toFixed(4) },
+    { label: isReverse ? 'U_r' : 'U', val: design.factorU.toFixed(4) },
+    { label: 'Z', val: design.factorZ.toFixed(4) },
+  ];
+
+  const renderStressCase = (title: string, stressCase: FlangeStressCase, accent: 'sky' | 'amber') => {
+    const rows = [
+      { label: 'S_H (Longitudinal Hub)', val: stressCase.sh, limit: stressCase.shLimit, limitLabel: '1.5 Sf', ok: stressCase.shOk },
+      { label: 'S_R (Radial Flange)', val: stressCase.sr, limit: stressCase.allowable, limitLabel: 'Sf', ok: stressCase.srOk },
+      { label: 'S_T (Tangential Flange)', val: stressCase.st, limit: stressCase.allowable, limitLabel: 'Sf', ok: stressCase.st <= stressCase.allowable },
+      ...(stressCase.stInner !== undefined
+        ? [{ label: "S_T' (Tangential at B')", val: stressCase.stInner, limit: stressCase.allowable, limitLabel: 'Sf', ok: stressCase.stInner <= stressCase.allowable }]
+        : []),
+      { label: '(S_H + S_R) / 2', val: stressCase.combinedHR, limit: stressCase.allowable, limitLabel: 'Sf', ok: stressCase.combinedHR <= stressCase.allowable },
+      { label: '(S_H + S_T) / 2', val: stressCase.combinedHT, limit: stressCase.allowable, limitLabel: 'Sf', ok: stressCase.combinedHT <= stressCase.allowable },
+    ];
+
+    return (
+      <div className={`bg-white p-5 rounded-xl border shadow-sm space-y-3 ${accent === 'sky' ? 'border-sky-100' : 'border-amber-100'}`}>
+        <div className={`text-[11px] font-black border-b pb-2 flex justify-between uppercase ${accent === 'sky' ? 'text-sky-800 border-sky-50' : 'text-amber-800 border-amber-50'}`}>
+          <span>{title}</span>
+          <span className="text-[9px] font-mono text-slate-500 normal-case">M = {formatMoment(stressCase.moment)} {momentUnit} · Sf = {formatStress(stressCase.allowable, units.stress)} {units.stress}</span>
+        </div>
+        <div className="space-y-1.5">
+          {rows.map(row => (
+            <div key={row.label} className="flex justify-between items-center text-[10px] font-bold">
+              <span className="text-slate-500">{row.label}</span>
+              <span className="font-mono tabular-nums flex items-center gap-2">
+                <span className={row.ok ? 'text-slate-800' : 'text-red-600'}>{formatStress(row.val, units.stress)}</span>
+                <span className="text-slate-300">≤ {formatStress(row.limit, units.stress)} <small className="text-[8px]">({row.limitLabel})</small></span>
+                <span className={`text-[8px] px-1.5 py-0.5 rounded font-black ${row.ok ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>{row.ok ? 'OK' : 'NG'}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden text-slate-900">
+      <div className="bg-slate-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <h2 className="text-xl font-black text-slate-800 flex items-center gap-3 uppercase tracking-tighter">
+          <div className="w-8 h-8 bg-violet-600 rounded-lg flex items-center justify-center shadow-lg shadow-violet-200">
+            <i className="fa-solid fa-ring text-white text-sm"></i>
+          </div>
+          Flange Stress Analysis (ASME DIV.1 APP.2)
+        </h2>
+        <div className="flex gap-1">
+          <span className="text-[10px] bg-slate-100 px-2 py-1 rounded text-slate-600 font-black border border-slate-200 uppercase tracking-tight">{typeLabel}</span>
+          <span className="text-[10px] bg-violet-100 px-2 py-1 rounded text-violet-700 font-black border border-violet-200 uppercase tracking-tight">t min = {design.solved ? `${formatLength(design.minThickness, units.length)} ${units.length}` : 'NO SOLUTION'}</span>
+          <span className={`text-[10px] px-2 py-1 rounded font-black border uppercase tracking-tight ${design.ok ? 'bg-emerald-100 text-emerald-700 border-emerald-200' : 'bg-red-100 text-red-700 border-red-200'}`}>
+            t = {design.thickness > 0 ? `${formatLength(design.thickness, units.length, 0)} ${units.length}` : '—'} {design.ok ? 'OK' : 'NG'}
+          </span>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          <section className="lg:col-span-7 bg-violet-50/50 rounded-xl border border-violet-100 p-5">
+            <h3 className="text-[11px] font-black text-violet-700 uppercase tracking-[0.2em] mb-4 flex items-center gap-2">
+              <i className="fa-solid fa-arrows-down-to-line"></i> Forces, Lever Arms & Moments
+            </h3>
+            <table className="w-full text-[10px] font-bold">
+              <thead>
+                <tr className="text-[8px] text-slate-400 uppercase tracking-widest">
+                  <th className="text-left pb-2">Load</th>
+                  <th className="text-right pb-2">Force ({units.force})</th>
+                  <th className="text-right pb-2">Arm ({units.length})</th>
+                  <th className="text-right pb-2">Moment ({momentUnit})</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {loadRows.map(row => (
+                  <tr key={row.label} className="border-t border-violet-100">
+                    <td className="py-1.5 font-sans text-slate-600">{row.label}</td>
+                    <td className="py-1.5 text-right">{formatForce(row.force, units.force)}</td>
+                    <td className="py-1.5 text-right">{formatLength(row.arm, units.length, 2)}</td>
+                    <td className="py-1.5 text-right">{row.momentLabel} = {formatMoment(row.moment)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t-2 border-violet-200 text-sky-700">
+                  <td className="py-1.5 font-sans font-black" colSpan={3}>Operating M_o = M_D + M_T + M_G</td>
+                  <td className="py-1.5 text-right font-black">{formatMoment(design.operatingMoment)}</td>
+                </tr>
+                <tr className="border-t border-violet-100 text-amber-700">
+                  <td className="py-1.5 font-sans font-black" colSpan={2}>Seating M_g = W × h_G</td>
+                  <td className="py-1.5 text-right">W = {formatForce(design.seatingBoltLoad, units.force)}</td>
+                  <td className="py-1.5 text-right font-black">{formatMoment(design.seatingMoment)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </section>
+
+          <section className="lg:col-span-5 bg-slate-50 rounded-xl border border-slate-100 p-5">
+            <h3 className="text-[11px] font-black text-slate-600 uppercase tracking-[0.2em] mb-4 flex items-center gap-2">
+              <i className="fa-solid fa-square-root-variable"></i> Flange Factors
+            </h3>
+            <div className="grid grid-cols-3 gap-2">
+              {factors.map(item => (
+                <div key={item.label} className="bg-white p-2 rounded-lg border border-slate-100 shadow-sm">
+                  <span className="block text-[8px] font-black text-slate-400 uppercase mb-0.5">{item.label}</span>
+                  <span className="text-[11px] font-black text-slate-700 font-mono">{item.val}</span>
+                </div>
+              ))}
+            </div>
+          </section>
+        </div>
+
+        {design.thickness > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderStressCase('Operating', design.operating, 'sky')}
+            {renderStressCase('Gasket Seating', design.seating, 'amber')}
+          </div>
+        ) : (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-[10px] font-bold text-red-700">
+            <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+            {design.shellAmbientAllowable > 0 && design.shellDesignAllowable > 0
+              ? `No thickness up to ${formatLength(MAX_SEARCH_THICKNESS, units.length, 0)} ${units.length} meets the App. 2 stress limits.`
+              : 'No shell allowable stress at the design temperature for this material.'}
+            {' '}Enter a flange thickness or revise the design; stud lengths are not sized.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
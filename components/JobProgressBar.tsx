@@ -0,0 +1,33 @@
+import React from 'react';
+import { JobProgress } from '../types';
+
+interface Props {
+  label: string;
+  progress: JobProgress;
+  onCancel: () => void;
+}
+
+export const JobProgressBar: React.FC<Props> = ({ label, progress, onCancel }) => {
+  const percent = progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-indigo-200 px-6 py-4 flex items-center gap-4">
+      <i className="fa-solid fa-spinner fa-spin text-indigo-600"></i>
+      <div className="flex-1">
+        <div className="flex justify-between text-[10px] font-black uppercase tracking-widest mb-1.5">
+          <span className="text-indigo-700">{label}</span>
+          <span className="text-slate-400 tabular-nums">{progress.done} / {progress.total} · {percent.toFixed(0)}%</span>
+        </div>
+        <div className="h-2 bg-indigo-50 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }}></div>
+        </div>
+      </div>
+      <button
+        onClick={onCancel}
+        className="text-[9px] bg-slate-600 hover:bg-slate-700 text-white px-3 py-1 rounded-full font-black flex items-center gap-1 transition-all active:scale-95 shadow-sm"
+      >
+        <i className="fa-solid fa-stop text-[7px]"></i> CANCEL
+      </button>
+    </div>
+  );
+};
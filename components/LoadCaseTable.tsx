@@ -0,0 +1,213 @@
+import React from 'react';
+import { DisplayUnits, FlangeInputs, LoadCase, LoadCaseSummary } from '../types';
+import { formatForce } from '../services/units';
+import { governingWm1 } from '../services/thermal';
+
+interface Props {
+  inputs: FlangeInputs;
+  summary: LoadCaseSummary;
+  units: DisplayUnits;
+  onInputChange: (inputs: FlangeInputs, changedField: string) => void;
+}
+
+export const LoadCaseTable: React.FC<Props> = ({ inputs, summary, units, onInputChange }) => {
+  const { governing } = summary;
+  const loadCases = inputs.loadCases || [];
+  const thermalCase = summary.cases.find(c => c.kind === 'thermal');
+  const thermal = summary.cases[0].evaluation.results.thermal;
+  const isTwoSided = inputs.useTwoSidedJoint && !!inputs.tubeSide;
+
+  const formatLoad = (valueInN: number) => formatForce(valueInN, units.force);
+
+  const updateLoadCases = (nextCases: LoadCase[]) => {
+    onInputChange({ ...inputs, loadCases: nextCases }, 'loadCases');
+  };
+
+  const addLoadCase = () => {
+    updateLoadCases([
+      ...loadCases,
+      {
+        id: Date.now().toString(),
+        name: `Case ${loadCases.length + 1}`,
+        pressure: inputs.designPressure,
+        temp: inputs.designTemp,
+        externalAxialForce: inputs.externalAxialForce,
+        externalMoment: inputs.externalMoment,
+        ...(isTwoSided && { tubePressure: inputs.tubeSide.designPressure, tubeTemp: inputs.tubeSide.designTemp })
+      }
+    ]);
+  };
+
+  const removeLoadCase = (id: string) => updateLoadCases(loadCases.filter(c => c.id !== id));
+
+  const handleCaseChange = (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    updateLoadCases(loadCases.map(c => {
+      if (c.id !== id) return c;
+      if (name === 'name') return { ...c, name: value };
+      // Cleared tube-side fields fall back to the tube-side design conditions
+      if ((name === 'tubePressure' || name === 'tubeTemp') && value === '') return { ...c, [name]: undefined };
+      return { ...c, [name]: parseFloat(value) || 0 };
+    }));
+  };
+
+  const toggleHydrotest = () => {
+    onInputChange({ ...inputs, includeHydrotest: !inputs.includeHydrotest }, 'includeHydrotest');
+  };
+
+  const cellInputClass = "w-full px-1.5 py-1 border border-slate-200 rounded text-[10px] font-bold text-right focus:ring-1 focus:ring-sky-500 outline-none";
+  const headerClass = "px-2 py-2 text-[8px] font-black text-slate-400 uppercase tracking-widest";
+  const cellClass = "px-2 py-1.5 text-right tabular-nums";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden text-slate-900">
+      <div className="bg-slate-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <h2 className="text-xl font-black text-slate-800 flex items-center gap-3 uppercase tracking-tighter">
+          <div className="w-8 h-8 bg-rose-600 rounded-lg flex items-center justify-center shadow-lg shadow-rose-200">
+            <i className="fa-solid fa-layer-group text-white text-sm"></i>
+          </div>
+          Load Cases
+        </h2>
+        <div className="flex gap-2 items-center">
+          <span className={`text-[10px] px-2 py-1 rounded font-black border uppercase tracking-tight ${governing.evaluation.isSafe ? 'bg-emerald-100 text-emerald-700 border-emerald-200' : 'bg-red-100 text-red-700 border-red-200'}`}>
+            Governing: {governing.name} ({governing.evaluation.marginPercent >= 0 ? '+' : ''}{governing.evaluation.marginPercent.toFixed(1)}%)
+          </span>
+          <button
+            onClick={toggleHydrotest}
+            className={`text-[9px] px-3 py-1 rounded-full font-black flex items-center gap-1 transition-all border ${inputs.includeHydrotest ? 'bg-sky-600 text-white border-sky-600' : 'bg-white text-slate-400 border-slate-200'}`}
+          >
+            <i className="fa-solid fa-droplet text-[8px]"></i> HYDROTEST
+          </button>
+          <button
+            onClick={addLoadCase}
+            className="text-[9px] bg-rose-600 hover:bg-rose-700 text-white px-3 py-1 rounded-full font-black flex items-center gap-1 transition-all active:scale-95 shadow-sm"
+          >
+            <i className="fa-solid fa-plus text-[8px]"></i> ADD CASE
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 overflow-x-auto">
+        <table className="w-full text-[10px] font-bold">
+          <thead>
+            <tr className="border-b border-slate-200">
+              <th className={`${headerClass} text-left`}>Case</th>
+              <th className={`${headerClass} text-right`}>P ({inputs.pressureUnit})</th>
+              <th className={`${headerClass} text-right`}>T ({inputs.tempUnit})</th>
+              {isTwoSided && (
+                <>
+                  <th className={`${headerClass} text-right`}>P Tube ({inputs.pressureUnit})</th>
+                  <th className={`${headerClass} text-right`}>T Tube ({inputs.tempUnit})</th>
+                </>
+              )}
+              <th className={`${headerClass} text-right`}>F_A (kN)</th>
+              <th className={`${headerClass} text-right`}>M_E (kN·m)</th>
+              <th className={`${headerClass} text-right`}>Wm1 ({units.force})</th>
+              <th className={`${headerClass} text-right`}>Wm2 ({units.force})</th>
+              <th className={`${headerClass} text-right`}>Margin</th>
+              <th className={`${headerClass} text-center`}>App.2</th>
+              <th className={`${headerClass} text-center`}>PCC-1</th>
+              <th className={headerClass}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.cases.map(c => {
+              const { results, pcc1, marginPercent, isSafe } = c.evaluation;
+              const userCase = c.kind === 'user' ? loadCases.find(lc => lc.id === c.id) : undefined;
+              const isGoverning = c.id === governing.id;
+
+              return (
+                <tr key={c.id} className={`border-b border-slate-100 ${isGoverning ? 'bg-rose-50/60' : ''}`}>
+                  <td className="px-2 py-1.5 text-left">
+                    {userCase ? (
+                      <input type="text" name="name" value={userCase.name} onChange={(e) => handleCaseChange(c.id, e)} className={`${cellInputClass} text-left`} />
+                    ) : (
+                      <span className="flex items-center gap-1.5 text-slate-700">
+                        {c.name}
+                        {c.kind === 'hydrotest' && <small className="text-[8px] text-sky-600 font-black">LSR {summary.hydrotestRatio.toFixed(3)}</small>}
+                      </span>
+                    )}
+                  </td>
+                  {userCase ? (
+                    <>
+                      <td className={cellClass}><input type="number" name="pressure" value={userCase.pressure} onChange={(e) => handleCaseChange(c.id, e)} className={cellInputClass} /></td>
+                      <td className={cellClass}><input type="number" name="temp" value={userCase.temp} onChange={(e) => handleCaseChange(c.id, e)} className={cellInputClass} /></td>
+                      {isTwoSided && (
+                        <>
+                          <td className={cellClass}><input type="number" name="tubePressure" value={userCase.tubePressure ?? ''} placeholder={`${inputs.tubeSide.designPressure}`} onChange={(e) => handleCaseChange(c.id, e)} className={cellInputClass} /></td>
+                          <td className={cellClass}><input type="number" name="tubeTemp" value={userCase.tubeTemp ?? ''} placeholder={`${inputs.tubeSide.designTemp}`} onChange={(e) => handleCaseChange(c.id, e)} className={cellInputClass} /></td>
+                        </>
+                      )}
+                      <td className={cellClass}><input type="number" name="externalAxialForce" value={userCase.externalAxialForce} onChange={(e) => handleCaseChange(c.id, e)} className={cellInputClass} /></td>
+                      <td className={cellClass}><input type="number" name="externalMoment" value={userCase.externalMoment} onChange={(e) => handleCaseChange(c.id, e)} className={cellInputClass} /></td>
+                    </>
+                  ) : (
+                    <>
+                      <td className={cellClass}>{c.inputs.designPressure.toFixed(3)}</td>
+                      <td className={cellClass}>{c.inputs.designTemp}{c.inputs.tempUnit !== inputs.tempUnit ? ` ${c.inputs.tempUnit}` : ''}</td>
+                      {isTwoSided && (
+                        <>
+                          <td className={cellClass}>{c.inputs.tubeSide.designPressure.toFixed(3)}</td>
+                          <td className={cellClass}>{c.inputs.tubeSide.designTemp}{c.inputs.tempUnit !== inputs.tempUnit ? ` ${c.inputs.tempUnit}` : ''}</td>
+                        </>
+                      )}
+                      <td className={cellClass}>{c.inputs.externalAxialForce || 0}</td>
+                      <td className={cellClass}>{c.inputs.externalMoment || 0}</td>
+                    </>
+                  )}
+                  <td className={cellClass}>{formatLoad(governingWm1(results))}</td>
+                  <td className={cellClass}>{formatLoad(results.wm2)}</td>
+                  <td className={`${cellClass} font-black ${isSafe ? 'text-emerald-600' : 'text-red-600'}`}>
+                    {marginPercent >= 0 ? '+' : ''}{marginPercent.toFixed(1)}%
+                  </td>
+                  <td className="px-2 py-1.5 text-center">
+                    <span className={`text-[8px] px-1.5 py-0.5 rounded font-black ${results.flangeDesign.ok ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
+                      {results.flangeDesign.ok ? 'OK' : 'NG'}
+                    </span>
+                  </td>
+                  <td className="px-2 py-1.5 text-center">
+                    {inputs.usePcc1Check ? (
+                      <span className={`text-[8px] px-1.5 py-0.5 rounded font-black ${pcc1.safe ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
+                        {pcc1.safe ? 'OK' : 'NG'}
+                      </span>
+                    ) : (
+                      <span className="text-slate-300">-</span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1.5 text-center">
+                    {userCase && (
+                      <button onClick={() => removeLoadCase(c.id)} className="text-slate-300 hover:text-red-500 transition-colors">
+                        <i className="fa-solid fa-trash-can text-[10px]"></i>
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {thermalCase && (
+          <div className="mt-4 bg-orange-50/60 rounded-xl border border-orange-100 p-4 grid grid-cols-2 md:grid-cols-4 gap-3 text-[10px] font-bold">
+            <div>
+              <span className="block text-[8px] font-black text-orange-400 uppercase mb-0.5">α Bolt / Flange (1e-6/°C)</span>
+              <span className="font-mono text-slate-700">{thermal.boltAlpha.toFixed(2)} / {thermal.flangeAlpha.toFixed(2)} · ΔT {thermal.deltaT.toFixed(0)} °C</span>
+            </div>
+            <div>
+              <span className="block text-[8px] font-black text-orange-400 uppercase mb-0.5">E Bolt Amb / Design (GPa)</span>
+              <span className="font-mono text-slate-700">{(thermal.boltModulusAmbient / 1000).toFixed(1)} / {(thermal.boltModulusDesign / 1000).toFixed(1)}</span>
+            </div>
+            <div>
+              <span className="block text-[8px] font-black text-orange-400 uppercase mb-0.5">ΔW Modulus / Differential ({units.force})</span>
+              <span className="font-mono text-slate-700">{formatLoad(thermal.modulusLoadChange)} / {formatLoad(thermal.thermalLoadChange)}</span>
+            </div>
+            <div>
+              <span className="block text-[8px] font-black text-orange-400 uppercase mb-0.5">W Assembly → Design Temp ({units.force})</span>
+              <span className={`font-mono ${thermal.ok ? 'text-slate-700' : 'text-red-600'}`}>{formatLoad(thermal.assemblyLoad)} → {formatLoad(thermal.boltLoadAtTemp)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
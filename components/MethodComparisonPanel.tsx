@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { DisplayUnits, FlangeInputs, OptimizerCandidate, OptimizerObjective, TighteningMethodComparison } from '../types';
+import { OPTIMIZER_OBJECTIVES } from '../constants';
+import { findBestCandidate } from '../services/optimizer';
+import { convertLength, formatLength } from '../services/units';
+
+interface Props {
+  inputs: FlangeInputs;
+  units: DisplayUnits;
+  comparison: TighteningMethodComparison;
+  fixedSize: boolean;
+  onApply: (candidate: OptimizerCandidate, useHydraulicTensioning: boolean) => void;
+  onClose: () => void;
+}
+
+export const MethodComparisonPanel: React.FC<Props> = ({ inputs, units, comparison, fixedSize, onApply, onClose }) => {
+  const [objective, setObjective] = useState<OptimizerObjective>('finalOD');
+
+  const bestTorque = findBestCandidate(comparison.torque, objective);
+  const bestTensioning = findBestCandidate(comparison.tensioning, objective);
+
+  const sizes = Array.from(new Set([...comparison.torque, ...comparison.tensioning].map(c => c.boltSize))).sort((a, b) => a - b);
+  const sizeRows = sizes.map(size => ({
+    size,
+    torque: findBestCandidate(comparison.torque.filter(c => c.boltSize === size), objective),
+    tensioning: findBestCandidate(comparison.tensioning.filter(c => c.boltSize === size), objective)
+  }));
+
+  const lengthDigits = (digits: number) => (units.length === 'in' ? digits + 2 : digits);
+  const formatDelta = (value: number, digits = 0) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+  const deltaClass = (value: number) => (value < 0 ? 'text-emerald-600' : value > 0 ? 'text-red-600' : 'text-slate-400');
+
+  const renderMethodCard = (title: string, icon: string, candidate: OptimizerCandidate | null, hydraulic: boolean) => (
+    <div className={`p-4 rounded-xl border shadow-sm ${hydraulic ? 'bg-sky-50/60 border-sky-100' : 'bg-slate-50 border-slate-100'}`}>
+      <div className="flex justify-between items-center mb-3">
+        <span className={`text-[11px] font-black uppercase flex items-center gap-2 ${hydraulic ? 'text-sky-700' : 'text-slate-700'}`}>
+          <i className={`fa-solid ${icon}`}></i> {title}
+        </span>
+        {candidate && (
+          <button
+            onClick={() => onApply(candidate, hydraulic)}
+            className="text-[9px] bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1 rounded-full font-black transition-all active:scale-95 shadow-sm"
+          >
+            APPLY
+          </button>
+        )}
+      </div>
+      {candidate ? (
+        <div className="grid grid-cols-3 gap-2 text-[10px] font-bold">
+          {[
+            { label: 'Bolting', val: `${candidate.boltSize}" × ${candidate.boltCount}` },
+            { label: `BCD (${units.length})`, val: formatLength(candidate.finalBCD, units.length) },
+            { label: `OD (${units.length})`, val: formatLength(candidate.finalOD, units.length, 0) },
+            { label: `Pitch (${units.length})`, val: formatLength(candidate.geometricPitch, units.length) },
+            { label: 'Forging (kg)', val: candidate.forgingWeight.toFixed(0) },
+            { label: 'Margin', val: `+${candidate.marginPercent.toFixed(1)}%` },
+          ].map(item => (
+            <div key={item.label} className="bg-white p-2 rounded-lg border border-slate-100">
+              <span className="block text-[8px] font-black text-slate-400 uppercase mb-0.5">{item.label}</span>
+              <span className="font-mono text-slate-700">{item.val}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-[10px] font-bold text-slate-400">No valid configuration found.</div>
+      )}
+    </div>
+  );
+
+  const headerClass = "px-2 py-2 text-[8px] font-black text-slate-400 uppercase tracking-widest";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-sky-200 overflow-hidden text-slate-900">
+      <div className="bg-sky-50 px-6 py-4 border-b border-sky-200 flex justify-between items-center gap-4">
+        <h2 className="text-xl font-black text-slate-800 flex items-center gap-3 uppercase tracking-tighter">
+          <div className="w-8 h-8 bg-sky-600 rounded-lg flex items-center justify-center shadow-lg shadow-sky-200">
+            <i className="fa-solid fa-code-compare text-white text-sm"></i>
+          </div>
+          Torque vs Tensioning
+        </h2>
+        <div className="flex flex-wrap justify-end gap-2 items-center">
+          <span className="text-[10px] bg-white px-2 py-1 rounded text-sky-700 font-black border border-sky-200 uppercase tracking-tight">
+            {fixedSize ? `Fixed Size ${inputs.boltSize}"` : 'All Sizes'}
+          </span>
+          <select
+            value={objective}
+            onChange={(e) => setObjective(e.target.value as OptimizerObjective)}
+            className="text-[9px] px-2 py-1 rounded border border-sky-200 bg-white font-black text-sky-700 uppercase outline-none"
+          >
+            {OPTIMIZER_OBJECTIVES.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors px-1">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderMethodCard('Torque (TEMA Spacing)', 'fa-wrench', bestTorque, false)}
+          {renderMethodCard('Hydraulic Tensioning', 'fa-oil-can', bestTensioning, true)}
+        </div>
+
+        {bestTorque && bestTensioning && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-[10px] font-bold">
+            {[
+              { label: `Δ BCD (${units.length})`, val: convertLength(bestTensioning.finalBCD - bestTorque.finalBCD, units.length), digits: lengthDigits(1) },
+              { label: `Δ OD (${units.length})`, val: convertLength(bestTensioning.finalOD - bestTorque.finalOD, units.length), digits: lengthDigits(0) },
+              { label: 'Δ Bolt Count', val: bestTensioning.boltCount - bestTorque.boltCount, digits: 0 },
+              { label: 'Δ Forging (kg)', val: bestTensioning.forgingWeight - bestTorque.forgingWeight, digits: 0 },
+            ].map(item => (
+              <div key={item.label} className="bg-white p-3 rounded-lg border border-slate-100 shadow-sm">
+                <span className="block text-[8px] font-black text-slate-400 uppercase mb-0.5">{item.label} (Tension − Torque)</span>
+                <span className={`text-lg font-black tabular-nums ${deltaClass(item.val)}`}>{formatDelta(item.val, item.digits)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-[10px] font-bold">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th rowSpan={2} className={`${headerClass} text-left`}>Size</th>
+                <th colSpan={3} className={`${headerClass} text-center border-l border-slate-100`}>Torque</th>
+                <th colSpan={3} className={`${headerClass} text-center border-l border-slate-100 text-sky-500`}>Tensioning</th>
+                <th rowSpan={2} className={`${headerClass} text-right border-l border-slate-100`}>Δ OD</th>
+              </tr>
+              <tr className="border-b border-slate-200">
+                {['EA', 'BCD', 'OD', 'EA', 'BCD', 'OD'].map((label, i) => (
+                  <th key={i} className={`${headerClass} text-right ${i % 3 === 0 ? 'border-l border-slate-100' : ''}`}>{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sizeRows.map(row => {
+                const renderCells = (candidate: OptimizerCandidate | null, hydraulic: boolean) => (
+                  candidate ? (
+                    <>
+                      <td className="px-2 py-1.5 text-right tabular-nums border-l border-slate-100 cursor-pointer hover:text-indigo-600" onClick={() => onApply(candidate, hydraulic)}>{candidate.boltCount}</td>
+                      <td className="px-2 py-1.5 text-right tabular-nums">{formatLength(candidate.finalBCD, units.length)}</td>
+                      <td className="px-2 py-1.5 text-right tabular-nums">{formatLength(candidate.finalOD, units.length, 0)}</td>
+                    </>
+                  ) : (
+                    <td colSpan={3} className="px-2 py-1.5 text-center text-slate-300 border-l border-slate-100">-</td>
+                  )
+                );
+                const deltaOd = row.torque && row.tensioning ? convertLength(row.tensioning.finalOD - row.torque.finalOD, units.length) : null;
+                return (
+                  <tr key={row.size} className="border-b border-slate-100">
+                    <td className="px-2 py-1.5 text-left font-mono">{row.size}"</td>
+                    {renderCells(row.torque, false)}
+                    {renderCells(row.tensioning, true)}
+                    <td className={`px-2 py-1.5 text-right tabular-nums border-l border-slate-100 ${deltaOd === null ? 'text-slate-300' : deltaClass(deltaOd)}`}>
+                      {deltaOd === null ? '-' : formatDelta(deltaOd, lengthDigits(0))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { DisplayUnits, FlangeEvaluation, FlangeInputs, MonteCarloResults, MonteCarloSettings } from '../types';
+import { PRELOAD_SCATTER } from '../constants';
+import { convertStress, formatForce, formatStress } from '../services/units';
+
+interface Props {
+  inputs: FlangeInputs;
+  evaluation: FlangeEvaluation;
+  units: DisplayUnits;
+  result: MonteCarloResults | null;
+  isRunning: boolean;
+  onRun: (settings: MonteCarloSettings) => void;
+}
+
+const SAMPLE_OPTIONS = [1000, 2000, 5000, 10000];
+
+export const MonteCarloPanel: React.FC<Props> = ({ inputs, evaluation, units, result: monteCarlo, isRunning, onRun }) => {
+  const [samples, setSamples] = useState(1000);
+  const [scatterOverride, setScatterOverride] = useState<number | null>(null);
+  const [gasketTolerance, setGasketTolerance] = useState(20);
+
+  const method = inputs.useHydraulicTensioning ? 'tensioning' : 'torque';
+  const preloadScatter = scatterOverride ?? PRELOAD_SCATTER[method];
+  const { pcc1 } = evaluation;
+
+
+  const formatProbability = (p: number) => (p === 0 ? '0%' : p < 0.001 ? '<0.1%' : `${(p * 100).toFixed(1)}%`);
+  const probabilityClass = (p: number) => (p === 0 ? 'text-emerald-600' : p < 0.05 ? 'text-amber-600' : 'text-red-600');
+  const inputClass = "w-16 px-1.5 py-0.5 border border-slate-200 rounded text-[10px] font-bold text-right focus:ring-1 focus:ring-violet-500 outline-none";
+
+  const renderHistogram = () => {
+    if (!monteCarlo) return null;
+    const { histogram } = monteCarlo;
+    const width = 560;
+    const height = 180;
+    const pad = 32;
+    // Axis spans the sampled stresses and every threshold that is set
+    const limits = [inputs.sgMinS, monteCarlo.sgMinOAssembly, inputs.sgMax].filter(v => v > 0);
+    const dataMax = histogram.min + histogram.binWidth * histogram.counts.length;
+    const xMin = Math.min(histogram.min, ...limits) * 0.95;
+    const xMax = Math.max(dataMax, ...limits) * 1.05;
+    const toX = (v: number) => pad + ((v - xMin) / ((xMax - xMin) || 1)) * (width - 2 * pad);
+    const axisLabel = (mpa: number) => convertStress(mpa, units.stress).toFixed(units.stress === 'ksi' ? 1 : 0);
+    const maxCount = Math.max(...histogram.counts, 1);
+    const barHeight = (count: number) => (count / maxCount) * (height - 2 * pad);
+
+    const thresholds = [
+      { label: 'Sgmin-S', value: inputs.sgMinS, color: '#dc2626' },
+      { label: 'Sgmin-O', value: monteCarlo.sgMinOAssembly, color: '#ea580c' },
+      { label: 'Sgmax', value: inputs.sgMax, color: '#7c3aed' },
+    ].filter(t => t.value > 0);
+
+    return (
+      <div className="bg-violet-50/40 rounded-xl border border-violet-100 p-3">
+        <svg width="100%" viewBox={`0 0 ${width} ${height}`} className="block">
+          <line x1={pad} y1={height - pad} x2={width - pad} y2={height - pad} stroke="#94a3b8" strokeWidth="1" />
+          {histogram.counts.map((count, i) => {
+            const x0 = toX(histogram.min + i * histogram.binWidth);
+            const x1 = toX(histogram.min + (i + 1) * histogram.binWidth);
+            return <rect key={i} x={x0} y={height - pad - barHeight(count)} width={Math.max(x1 - x0 - 1, 1)} height={barHeight(count)} fill="#a78bfa" />;
+          })}
+          {thresholds.map(t => (
+            <g key={t.label}>
+              <line x1={toX(t.value)} y1={pad - 10} x2={toX(t.value)} y2={height - pad} stroke={t.color} strokeWidth="1.5" strokeDasharray="4 3" />
+              <text x={toX(t.value)} y={pad - 14} textAnchor="middle" fontSize="8" fontWeight="900" fill={t.color}>{t.label} {axisLabel(t.value)}</text>
+            </g>
+          ))}
+          <text x={pad} y={height - pad + 12} textAnchor="middle" fontSize="8" fill="#94a3b8">{axisLabel(xMin)}</text>
+          <text x={width - pad} y={height - pad + 12} textAnchor="middle" fontSize="8" fill="#94a3b8">{axisLabel(xMax)}</text>
+          <text x={width / 2} y={height - 6} textAnchor="middle" fontSize="9" fontWeight="900" fill="#64748b">Local Assembly Gasket Stress ({units.stress})</text>
+        </svg>
+        <div className="text-[9px] font-bold text-slate-400 mt-1">
+          Sgmin-O is shown as the assembly stress that still leaves Sgmin-O after pressure unloading (Step 6).
+        </div>
+      </div>
+    );
+  };
+
+  const deterministic = [
+    { label: 'Step 5 (Sgmin-S)', ok: pcc1.isStep5Ok },
+    { label: 'Step 6 (Sgmin-O)', ok: pcc1.isStep6Ok },
+    { label: 'Step 7 (Sgmax)', ok: pcc1.isStep7Ok },
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden text-slate-900">
+      <div className="bg-slate-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center gap-4">
+        <h2 className="text-xl font-black text-slate-800 flex items-center gap-3 uppercase tracking-tighter">
+          <div className="w-8 h-8 bg-violet-600 rounded-lg flex items-center justify-center shadow-lg shadow-violet-200">
+            <i className="fa-solid fa-dice text-white text-sm"></i>
+          </div>
+          Stochastic Assembly
+        </h2>
+        <button
+          onClick={() => onRun({ samples, preloadScatter, gasketTolerance })}
+          disabled={isRunning}
+          className="text-[9px] bg-violet-600 hover:bg-violet-700 disabled:opacity-40 text-white px-3 py-1 rounded-full font-black flex items-center gap-1 transition-all active:scale-95 shadow-sm"
+        >
+          <i className="fa-solid fa-play text-[7px]"></i> RUN
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex flex-wrap gap-4 items-center text-[9px] font-black text-slate-500 uppercase">
+          <label className="flex items-center gap-2">
+            Samples
+            <select value={samples} onChange={(e) => setSamples(parseInt(e.target.value))} className={inputClass}>
+              {SAMPLE_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Preload Scatter ±%
+            <input type="number" value={preloadScatter} onChange={(e) => setScatterOverride(parseFloat(e.target.value) || 0)} className={inputClass} />
+            <span className="text-slate-400 normal-case font-bold">({method === 'tensioning' ? 'Tensioning' : 'Torque'} default {PRELOAD_SCATTER[method]}%)</span>
+          </label>
+          <label className="flex items-center gap-2">
+            Gasket m/y ±%
+            <input type="number" value={gasketTolerance} onChange={(e) => setGasketTolerance(parseFloat(e.target.value) || 0)} className={inputClass} />
+          </label>
+        </div>
+
+        {!pcc1.active && (
+          <div className="text-[10px] font-bold text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+            PCC-1 check is off; enter Sgmin-S, Sgmin-O and Sgmax to get gasket stress probabilities.
+          </div>
+        )}
+
+        {monteCarlo ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {[
+                { label: 'Under-Seating (< Sgmin-S)', p: monteCarlo.underSeating },
+                { label: 'Operating Leak (< Sgmin-O)', p: monteCarlo.operatingUnderload },
+                { label: 'Crushing (> Sgmax)', p: monteCarlo.crushing },
+                { label: 'Bolt Load < Wm', p: monteCarlo.boltLoadShortfall },
+              ].map(item => (
+                <div key={item.label} className="bg-white p-3 rounded-lg border border-slate-100 shadow-sm">
+                  <span className="block text-[8px] font-black text-slate-400 uppercase mb-0.5">{item.label}</span>
+                  <span className={`text-lg font-black tabular-nums ${probabilityClass(item.p)}`}>{formatProbability(item.p)}</span>
+                </div>
+              ))}
+              <div className="bg-violet-50 p-3 rounded-lg border border-violet-100 shadow-sm">
+                <span className="block text-[8px] font-black text-violet-500 uppercase mb-0.5">All Criteria Met</span>
+                <span className="text-lg font-black tabular-nums text-violet-800">{(monteCarlo.allOk * 100).toFixed(1)}%</span>
+              </div>
+            </div>
+
+            {renderHistogram()}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-[10px] font-bold">
+              {[
+                { label: `Target Preload (${units.force})`, val: formatForce(monteCarlo.targetPreload, units.force) },
+                { label: `Preload P5 – P95 (${units.force})`, val: `${formatForce(monteCarlo.preloadP05, units.force)} – ${formatForce(monteCarlo.preloadP95, units.force)}` },
+                { label: `Mean Gasket Stress (${units.stress})`, val: formatStress(monteCarlo.stressMean, units.stress) },
+                { label: `Stress P5 – P95 (${units.stress})`, val: `${formatStress(monteCarlo.stressP05, units.stress)} – ${formatStress(monteCarlo.stressP95, units.stress)}` },
+              ].map(item => (
+                <div key={item.label} className="bg-slate-50 p-2 rounded-lg border border-slate-100">
+                  <span className="block text-[8px] font-black text-slate-400 uppercase mb-0.5">{item.label}</span>
+                  <span className="font-mono text-slate-700">{item.val}</span>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="text-[10px] font-bold text-slate-400 text-center py-4">
+            Press RUN to simulate {samples} assemblies with the settings above.
+          </div>
+        )}
+
+        {pcc1.active && (
+          <div className="flex flex-wrap gap-2 items-center text-[9px] font-black uppercase">
+            <span className="text-slate-400 tracking-widest">Deterministic:</span>
+            {deterministic.map(d => (
+              <span key={d.label} className={`px-2 py-0.5 rounded border ${d.ok ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                {d.label} {d.ok ? 'OK' : 'Not OK'}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import React, { useMemo, useState } from 'react';
+import { DisplayUnits, FlangeInputs, OptimizerCandidate, OptimizerObjective } from '../types';
+import { OPTIMIZER_OBJECTIVES } from '../constants';
+import { findParetoFront } from '../services/optimizer';
+import { convertForce, convertLength, formatForce, formatLength } from '../services/units';
+
+interface Props {
+  inputs: FlangeInputs;
+  units: DisplayUnits;
+  candidates: OptimizerCandidate[];
+  fixedSize: boolean;
+  onApply: (candidate: OptimizerCandidate) => void;
+  onClose: () => void;
+}
+
+type SortKey = OptimizerObjective | 'boltSize' | 'marginPercent' | 'geometricPitch';
+
+const PITCH_LABELS = { ok: 'OK', tight: 'TIGHT', wide: 'WIDE' };
+
+const candidateKey = (c: OptimizerCandidate) => `${c.boltSize}-${c.boltCount}`;
+
+export const OptimizerPanel: React.FC<Props> = ({ inputs, units, candidates, fixedSize, onApply, onClose }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('requiredLoad');
+  const [ascending, setAscending] = useState(true);
+  const [pitchOkOnly, setPitchOkOnly] = useState(true);
+  const [objective, setObjective] = useState<OptimizerObjective>('requiredLoad');
+  const [paretoObjective, setParetoObjective] = useState<OptimizerObjective | ''>('');
+
+  const visible = useMemo(
+    () => (pitchOkOnly ? candidates.filter(c => c.pitchStatus === 'ok') : candidates),
+    [candidates, pitchOkOnly]
+  );
+
+  const rows = useMemo(
+    () => [...visible].sort((a, b) => (ascending ? 1 : -1) * (a[sortKey] - b[sortKey]) || a.requiredLoad - b.requiredLoad),
+    [visible, sortKey, ascending]
+  );
+
+  const paretoKeys = useMemo(() => {
+    if (!paretoObjective || paretoObjective === objective) return null;
+    return new Set(findParetoFront(visible, objective, paretoObjective).map(candidateKey));
+  }, [visible, objective, paretoObjective]);
+
+  const handleObjectiveChange = (next: OptimizerObjective) => {
+    setObjective(next);
+    setSortKey(next);
+    setAscending(true);
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const columns: { key: SortKey; label: string }[] = [
+    { key: 'boltSize', label: 'Size (in)' },
+    { key: 'boltCount', label: 'EA' },
+    { key: 'requiredLoad', label: `Req. Load (${units.force})` },
+    { key: 'marginPercent', label: 'Margin' },
+    { key: 'finalBCD', label: `BCD (${units.length})` },
+    { key: 'finalOD', label: `OD (${units.length})` },
+    { key: 'geometricPitch', label: `Pitch (${units.length})` },
+    { key: 'forgingWeight', label: 'Forging (kg)' },
+    { key: 'boltingCost', label: 'Bolt Cost' },
+  ];
+
+  // Objective value and unit as displayed; loads and diameters follow the unit system
+  const objectiveValue = (c: OptimizerCandidate, objective: OptimizerObjective) => {
+    if (objective === 'requiredLoad') return convertForce(c.requiredLoad, units.force);
+    if (objective === 'finalOD' || objective === 'finalBCD') return convertLength(c[objective], units.length);
+    return c[objective];
+  };
+  const objectiveLabel = (id: OptimizerObjective) => {
+    const info = OPTIMIZER_OBJECTIVES.find(o => o.id === id)!;
+    const unit = id === 'requiredLoad' ? units.force : id === 'finalOD' || id === 'finalBCD' ? units.length : info.unit;
+    return { ...info, unit };
+  };
+  const selectClass = "text-[9px] px-2 py-1 rounded border border-indigo-200 bg-white font-black text-indigo-700 uppercase outline-none";
+
+  const renderParetoChart = () => {
+    if (!paretoKeys || !paretoObjective) return null;
+    const width = 560;
+    const height = 220;
+    const pad = 36;
+    const xs = visible.map(c => objectiveValue(c, objective));
+    const ys = visible.map(c => objectiveValue(c, paretoObjective));
+    const [xMin, xMax] = [Math.min(...xs), Math.max(...xs)];
+    const [yMin, yMax] = [Math.min(...ys), Math.max(...ys)];
+    const toX = (v: number) => pad + ((v - xMin) / ((xMax - xMin) || 1)) * (width - 2 * pad);
+    const toY = (v: number) => height - pad - ((v - yMin) / ((yMax - yMin) || 1)) * (height - 2 * pad);
+    const front = visible
+      .filter(c => paretoKeys.has(candidateKey(c)))
+      .sort((a, b) => objectiveValue(a, objective) - objectiveValue(b, objective));
+    const xInfo = objectiveLabel(objective);
+    const yInfo = objectiveLabel(paretoObjective);
+
+    return (
+      <div className="mb-4 bg-indigo-50/40 rounded-xl border border-indigo-100 p-3">
+        <svg width="100%" viewBox={`0 0 ${width} ${height}`} className="block">
+          <line x1={pad} y1={height - pad} x2={width - pad} y2={height - pad} stroke="#94a3b8" strokeWidth="1" />
+          <line x1={pad} y1={pad} x2={pad} y2={height - pad} stroke="#94a3b8" strokeWidth="1" />
+          <text x={width / 2} y={height - 8} textAnchor="middle" fontSize="9" fontWeight="900" fill="#64748b">{xInfo.label} ({xInfo.unit})</text>
+          <text x={10} y={height / 2} textAnchor="middle" fontSize="9" fontWeight="900" fill="#64748b" transform={`rotate(-90 10 ${height / 2})`}>{yInfo.label} ({yInfo.unit})</text>
+          <text x={pad} y={height - pad + 12} textAnchor="middle" fontSize="8" fill="#94a3b8">{xMin.toFixed(0)}</text>
+          <text x={width - pad} y={height - pad + 12} textAnchor="middle" fontSize="8" fill="#94a3b8">{xMax.toFixed(0)}</text>
+          <text x={pad - 4} y={height - pad} textAnchor="end" fontSize="8" fill="#94a3b8">{yMin.toFixed(0)}</text>
+          <text x={pad - 4} y={pad + 3} textAnchor="end" fontSize="8" fill="#94a3b8">{yMax.toFixed(0)}</text>
+          <polyline
+            points={front.map(c => `${toX(objectiveValue(c, objective))},${toY(objectiveValue(c, paretoObjective))}`).join(' ')}
+            fill="none" stroke="#4f46e5" strokeWidth="1.5" strokeDasharray="4 3"
+          />
+          {visible.map(c => {
+            const onFront = paretoKeys.has(candidateKey(c));
+            return (
+              <circle
+                key={candidateKey(c)}
+                cx={toX(objectiveValue(c, objective))}
+                cy={toY(objectiveValue(c, paretoObjective))}
+                r={onFront ? 4 : 2.5}
+                fill={onFront ? '#4f46e5' : '#cbd5e1'}
+                className="cursor-pointer"
+                onClick={() => onApply(c)}
+              >
+                <title>{c.boltSize}" × {c.boltCount}</title>
+              </circle>
+            );
+          })}
+        </svg>
+        <div className="text-[9px] font-bold text-slate-400 mt-1">
+          Pareto front: {front.map(c => `${c.boltSize}" × ${c.boltCount}`).join(' · ')}
+        </div>
+      </div>
+    );
+  };
+
+  const headerClass = "px-2 py-2 text-[8px] font-black text-slate-400 uppercase tracking-widest";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-indigo-200 overflow-hidden text-slate-900">
+      <div className="bg-indigo-50 px-6 py-4 border-b border-indigo-200 flex justify-between items-center gap-4">
+        <h2 className="text-xl font-black text-slate-800 flex items-center gap-3 uppercase tracking-tighter">
+          <div className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center shadow-lg shadow-indigo-200">
+            <i className="fa-solid fa-ranking-star text-white text-sm"></i>
+          </div>
+          Optimizer Candidates
+        </h2>
+        <div className="flex flex-wrap justify-end gap-2 items-center">
+          <span className="text-[10px] bg-white px-2 py-1 rounded text-indigo-700 font-black border border-indigo-200 uppercase tracking-tight">
+            {fixedSize ? `Fixed Size ${inputs.boltSize}"` : 'All Sizes'} · Margin ≥ {inputs.optimizerMinMargin || 0}% · {rows.length} / {candidates.length}
+          </span>
+          <select value={objective} onChange={(e) => handleObjectiveChange(e.target.value as OptimizerObjective)} className={selectClass}>
+            {OPTIMIZER_OBJECTIVES.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+          <select value={paretoObjective} onChange={(e) => setParetoObjective(e.target.value as OptimizerObjective | '')} className={selectClass}>
+            <option value="">No Pareto</option>
+            {OPTIMIZER_OBJECTIVES.filter(o => o.id !== objective).map(o => <option key={o.id} value={o.id}>Pareto vs {o.label}</option>)}
+          </select>
+          <button
+            onClick={() => setPitchOkOnly(!pitchOkOnly)}
+            className={`text-[9px] px-3 py-1 rounded-full font-black flex items-center gap-1 transition-all border ${pitchOkOnly ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-400 border-slate-200'}`}
+          >
+            <i className="fa-solid fa-filter text-[8px]"></i> PITCH OK ONLY
+          </button>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors px-1">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 overflow-x-auto max-h-[36rem] overflow-y-auto">
+        {rows.length > 0 && renderParetoChart()}
+        {rows.length === 0 ? (
+          <div className="text-[10px] font-bold text-slate-400 text-center py-6">
+            No valid configuration found. {fixedSize ? `(Current Bolt Size: ${inputs.boltSize}")` : 'Tried all bolt sizes.'} Try adjusting pressure/temp or manually increasing bolt size.
+          </div>
+        ) : (
+          <table className="w-full text-[10px] font-bold">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className={`${headerClass} text-left`}>#</th>
+                {columns.map(col => (
+                  <th key={col.key} className={`${headerClass} text-right cursor-pointer hover:text-indigo-600 select-none`} onClick={() => handleSort(col.key)}>
+                    {col.label}
+                    {sortKey === col.key && <i className={`fa-solid ${ascending ? 'fa-caret-up' : 'fa-caret-down'} ml-1`}></i>}
+                  </th>
+                ))}
+                <th className={`${headerClass} text-center`}>Pitch</th>
+                <th className={`${headerClass} text-center`}>PCC-1</th>
+                <th className={`${headerClass} text-center`}>Pass Lane</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((c, i) => {
+                const isCurrent = c.boltSize === inputs.boltSize && c.boltCount === inputs.boltCount;
+                const onFront = paretoKeys?.has(candidateKey(c));
+                return (
+                  <tr
+                    key={candidateKey(c)}
+                    onClick={() => onApply(c)}
+                    className={`border-b border-slate-100 cursor-pointer transition-colors ${isCurrent ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <td className="px-2 py-1.5 text-left text-slate-400">
+                      {i + 1}
+                      {onFront && <i className="fa-solid fa-star text-indigo-500 text-[8px] ml-1" title="Pareto optimal"></i>}
+                    </td>
+                    <td className="px-2 py-1.5 text-right font-mono">{c.boltSize}"</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums">{c.boltCount}</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums">{formatForce(c.requiredLoad, units.force)}</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-emerald-600">+{c.marginPercent.toFixed(1)}%</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-sky-600">{formatLength(c.finalBCD, units.length)}</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-amber-600">{formatLength(c.finalOD, units.length, 0)}</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums">{formatLength(c.geometricPitch, units.length)}</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums">{c.forgingWeight.toFixed(0)}</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums">{c.boltingCost.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                    <td className="px-2 py-1.5 text-center">
+                      <span className={`text-[8px] px-1.5 py-0.5 rounded font-black ${c.pitchStatus === 'ok' ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+                        {PITCH_LABELS[c.pitchStatus]}
+                      </span>
+                    </td>
+                    <td className="px-2 py-1.5 text-center">
+                      {c.pcc1Ok === null ? (
+                        <span className="text-slate-300">-</span>
+                      ) : (
+                        <span className={`text-[8px] px-1.5 py-0.5 rounded font-black ${c.pcc1Ok ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
+                          {c.pcc1Ok ? 'OK' : 'NG'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-2 py-1.5 text-center">
+                      {c.passLaneBolts.length > 0 ? (
+                        <span className="text-[8px] px-1.5 py-0.5 rounded font-black bg-red-100 text-red-700" title={`Bolts ${c.passLaneBolts.join(', ')}`}>
+                          ON LANE ({c.passLaneBolts.length})
+                        </span>
+                      ) : (
+                        <span className="text-slate-300">-</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
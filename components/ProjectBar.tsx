@@ -0,0 +1,85 @@
+import React from 'react';
+import { Project, ProjectMeta, ProjectSaveStatus } from '../types';
+
+interface Props {
+  projects: Project[];
+  activeId: string | null;
+  meta: ProjectMeta;
+  saveStatus: ProjectSaveStatus;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onDelete: () => void;
+  onMetaChange: (meta: ProjectMeta) => void;
+}
+
+const STATUS_LABELS: Record<ProjectSaveStatus, { label: string; className: string }> = {
+  loading: { label: 'Loading…', className: 'text-slate-400' },
+  saving: { label: 'Saving…', className: 'text-amber-500' },
+  saved: { label: 'Saved', className: 'text-emerald-600' },
+  error: { label: 'Not saved (storage unavailable)', className: 'text-red-600' },
+};
+
+export const ProjectBar: React.FC<Props> = ({ projects, activeId, meta, saveStatus, onSelect, onCreate, onDelete, onMetaChange }) => {
+  const labelClass = "text-[8px] font-black text-slate-400 uppercase tracking-widest";
+  const inputClass = "text-[10px] font-bold bg-white border border-slate-200 rounded-md px-2 py-1 text-slate-700 focus:ring-2 focus:ring-sky-500 outline-none shadow-sm";
+
+  const fields: { key: keyof ProjectMeta; label: string; width: string }[] = [
+    { key: 'name', label: 'Project Name', width: 'w-40' },
+    { key: 'client', label: 'Client', width: 'w-36' },
+    { key: 'jobNumber', label: 'Job No', width: 'w-24' },
+    { key: 'exchangerTag', label: 'Exchanger Tag', width: 'w-28' },
+    { key: 'revision', label: 'Rev', width: 'w-12' },
+  ];
+
+  const status = STATUS_LABELS[saveStatus];
+  const isBusy = saveStatus === 'loading';
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 shadow-sm px-6 py-4 flex flex-wrap items-end gap-3">
+      <label className="flex flex-col gap-0.5">
+        <span className={labelClass}>Project</span>
+        <select
+          value={activeId ?? ''}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={isBusy}
+          className={`${inputClass} w-48 text-sky-700 border-sky-200`}
+        >
+          {projects.map(p => <option key={p.id} value={p.id}>{p.meta.name || 'Untitled Project'}</option>)}
+        </select>
+      </label>
+      <button
+        onClick={onCreate}
+        disabled={isBusy}
+        className="bg-sky-600 hover:bg-sky-700 text-white px-3 py-1.5 rounded-md text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 shadow-sm disabled:opacity-50"
+      >
+        <i className="fa-solid fa-plus"></i> New
+      </button>
+      <button
+        onClick={onDelete}
+        disabled={isBusy || !activeId}
+        className="text-[9px] font-black text-slate-400 hover:text-red-500 uppercase tracking-widest px-3 py-1.5 border border-slate-200 rounded-md transition-all disabled:opacity-50"
+      >
+        <i className="fa-solid fa-trash-can"></i> Delete
+      </button>
+
+      <div className="w-px self-stretch bg-slate-200 mx-1"></div>
+
+      {fields.map(f => (
+        <label key={f.key} className="flex flex-col gap-0.5">
+          <span className={labelClass}>{f.label}</span>
+          <input
+            type="text"
+            value={meta[f.key]}
+            onChange={(e) => onMetaChange({ ...meta, [f.key]: e.target.value })}
+            disabled={isBusy}
+            className={`${inputClass} ${f.width}`}
+          />
+        </label>
+      ))}
+
+      <span className={`ml-auto text-[9px] font-black uppercase tracking-widest ${status.className}`}>
+        <i className="fa-solid fa-database mr-1"></i> {status.label}
+      </span>
+    </section>
+  );
+};
@@ -1,15 +1,23 @@
 import React, { useState } from 'react';
-import { CalculationResults, FlangeInputs } from '../types';
-import { TEMA_BOLT_DATA } from '../constants';
+import { CalculationResults, DisplayUnits, FlangeInputs } from '../types';
+import { TEMA_BOLT_DATA, G1_RULES } from '../constants';
+import { formatLength } from '../services/units';
 
 interface Props {
   inputs: FlangeInputs;
   results: CalculationResults;
+  units: DisplayUnits;
 }
 
-export const ResultTable: React.FC<Props> = ({ inputs, results }) => {
+export const ResultTable: React.FC<Props> = ({ inputs, results, units }) => {
   const [showDetails, setShowDetails] = useState(false);
   const boltRef = TEMA_BOLT_DATA.find(b => b.size === inputs.boltSize);
+  const hub = results.hubGeometry;
+  const g1SourceLabel = hub.source === 'locked'
+    ? 'Locked (User)'
+    : hub.source === 'noHub'
+      ? 'No Hub (g1 = g0)'
+      : G1_RULES.find(r => r.id === hub.source)?.label;
 
   // Spacing logic
   const physicalPitch = results.geometricPitch;
@@ -68,7 +76,7 @@ export const ResultTable: React.FC<Props> = ({ inputs, results }) => {
           )}
           
           <div className={resultTextClass}>
-            {results.bcdMethod1.toFixed(0)} <small className="text-[10px] opacity-40">mm</small>
+            {formatLength(results.bcdMethod1, units.length, 0)} <small className="text-[10px] opacity-40">{units.length}</small>
           </div>
         </div>
 
@@ -85,13 +93,23 @@ export const ResultTable: React.FC<Props> = ({ inputs, results }) => {
             <div className="animate-in fade-in duration-300">
               <div className={detailTextClass}>ID + (g1 × 2) + (R × 2)</div>
               <div className={substitutionTextClass}>
-                {inputs.insideDia} + ({inputs.g1} × 2) + ({boltRef?.R.toFixed(4)}" × 2) =
+                {inputs.insideDia} + ({hub.g1} × 2) + ({boltRef?.R.toFixed(4)}" × 2) =
               </div>
             </div>
           )}
 
+          <div className="text-[8px] font-black text-slate-400 uppercase tracking-tight mb-1">
+            g1 = {formatLength(hub.g1, units.length, 0)} {units.length} · <span className="text-sky-600">{g1SourceLabel}</span>
+            {hub.hubLength > 0 && <span> · h = {formatLength(hub.hubLength, units.length)} (1:{hub.taper})</span>}
+          </div>
+          {hub.warning && (
+            <div className="text-[8px] font-black text-amber-600 uppercase tracking-tight mb-1">
+              <i className="fa-solid fa-triangle-exclamation mr-1"></i>{hub.warning}
+            </div>
+          )}
+
           <div className={resultTextClass}>
-            {results.bcdMethod2.toFixed(0)} <small className="text-[10px] opacity-40">mm</small>
+            {formatLength(results.bcdMethod2, units.length, 0)} <small className="text-[10px] opacity-40">{units.length}</small>
           </div>
         </div>
 
@@ -114,7 +132,7 @@ export const ResultTable: React.FC<Props> = ({ inputs, results }) => {
           )}
 
           <div className={resultTextClass}>
-            {results.bcdMethod3.toFixed(2)} <small className="text-[10px] opacity-40">mm</small>
+            {formatLength(results.bcdMethod3, units.length, 2)} <small className="text-[10px] opacity-40">{units.length}</small>
           </div>
         </div>
       </div>
@@ -132,15 +150,15 @@ export const ResultTable: React.FC<Props> = ({ inputs, results }) => {
         <div className="space-y-1.5">
           <div className="flex justify-between text-[10px] font-bold">
             <span className="text-slate-500">Min Allowable Pitch:</span>
-            <span className="text-slate-800 tabular-nums">{results.boltSpacingMin.toFixed(2)} mm</span>
+            <span className="text-slate-800 tabular-nums">{formatLength(results.boltSpacingMin, units.length, 2)} {units.length}</span>
           </div>
           <div className="flex justify-between text-[10px] font-bold">
             <span className="text-slate-500 italic">Geometric Pitch:</span>
-            <span className={`${pitchValueColor} tabular-nums`}>{physicalPitch.toFixed(2)} mm</span>
+            <span className={`${pitchValueColor} tabular-nums`}>{formatLength(physicalPitch, units.length, 2)} {units.length}</span>
           </div>
           <div className="flex justify-between text-[10px] font-bold border-t border-slate-50 pt-1.5">
             <span className="text-slate-500 italic">Max bolt pitch (WHC Standard):</span>
-            <span className="text-amber-600 tabular-nums border-b border-dotted border-amber-600">{results.maxBoltSpacing.toFixed(2)} mm</span>
+            <span className="text-amber-600 tabular-nums border-b border-dotted border-amber-600">{formatLength(results.maxBoltSpacing, units.length, 2)} {units.length}</span>
           </div>
         </div>
       </div>
@@ -153,32 +171,32 @@ export const ResultTable: React.FC<Props> = ({ inputs, results }) => {
         <div className="space-y-2">
           <div className="flex justify-between text-[10px] font-bold">
             <span className="text-slate-400">Inner Ring (IR):</span>
-            <span className="text-slate-600">{results.innerRingWidth.toFixed(1)} mm</span>
+            <span className="text-slate-600">{formatLength(results.innerRingWidth, units.length)} {units.length}</span>
           </div>
           <div className="flex justify-between text-[10px] font-bold">
             <span className="text-slate-400">Outer Ring (OR):</span>
-            <span className="text-slate-600">{results.outerRingWidth.toFixed(1)} mm</span>
+            <span className="text-slate-600">{formatLength(results.outerRingWidth, units.length)} {units.length}</span>
           </div>
           
           <div className="pt-2 border-t border-slate-200/50 space-y-2">
             <div>
               <div className="flex justify-between items-baseline">
                 <span className="text-[10px] font-bold text-sky-700">Gasket Seal OD:</span>
-                <span className="text-[11px] font-black text-sky-800 border-b-2 border-sky-200 tabular-nums">{results.seatingOD.toFixed(1)} mm</span>
+                <span className="text-[11px] font-black text-sky-800 border-b-2 border-sky-200 tabular-nums">{formatLength(results.seatingOD, units.length)} {units.length}</span>
               </div>
             </div>
 
             <div>
               <div className="flex justify-between items-baseline">
                 <span className="text-[10px] font-bold text-sky-700">Gasket Seal ID:</span>
-                <span className="text-[11px] font-black text-sky-800 border-b-2 border-sky-200 tabular-nums">{results.seatingID.toFixed(1)} mm</span>
+                <span className="text-[11px] font-black text-sky-800 border-b-2 border-sky-200 tabular-nums">{formatLength(results.seatingID, units.length)} {units.length}</span>
               </div>
             </div>
             
             <div className="pt-2">
               <div className="flex justify-between items-baseline">
                 <span className="text-[10px] font-black text-slate-800 uppercase">TOTAL GASKET O.D</span>
-                <span className="text-[11px] font-black text-slate-900 tabular-nums">{results.gasketOD.toFixed(1)} mm</span>
+                <span className="text-[11px] font-black text-slate-900 tabular-nums">{formatLength(results.gasketOD, units.length)} {units.length}</span>
               </div>
             </div>
           </div>
@@ -197,10 +215,10 @@ export const ResultTable: React.FC<Props> = ({ inputs, results }) => {
           </div>
           <div className="flex justify-between items-center border-t border-amber-200/50 pt-2">
             <span className="text-[10px] font-bold text-slate-500 tabular-nums">
-              {results.finalBCD.toFixed(1)} + (2 × {results.edgeDistance.toFixed(2)})
+              {formatLength(results.finalBCD, units.length)} + (2 × {formatLength(results.edgeDistance, units.length, 2)})
             </span>
             <span className="text-sm font-black text-amber-700 flex items-baseline gap-1">
-              = {results.finalOD.toFixed(0)} <small className="text-[10px]">mm</small>
+              = {formatLength(results.finalOD, units.length, 0)} <small className="text-[10px]">{units.length}</small>
             </span>
           </div>
         </div>
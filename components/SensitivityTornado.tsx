@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { DisplayUnits, FlangeInputs, SensitivityEntry } from '../types';
+import { runSensitivity } from '../services/sensitivity';
+import { convertLength } from '../services/units';
+
+interface Props {
+  inputs: FlangeInputs;
+  units: DisplayUnits;
+}
+
+type TornadoMetric = 'margin' | 'od';
+
+const PERTURBATIONS = [5, 10, 20];
+
+export const SensitivityTornado: React.FC<Props> = ({ inputs, units }) => {
+  const [percent, setPercent] = useState(10);
+  const [metric, setMetric] = useState<TornadoMetric>('margin');
+
+  const sensitivity = useMemo(() => runSensitivity(inputs, percent), [inputs, percent]);
+
+  const metricValue = (point: SensitivityEntry['low']) => (metric === 'margin' ? point.marginPercent : convertLength(point.finalOD, units.length));
+  const baseValue = metric === 'margin' ? sensitivity.baseMargin : convertLength(sensitivity.baseOD, units.length);
+  const swing = (entry: SensitivityEntry) => (metric === 'margin' ? entry.marginSwing : convertLength(entry.odSwing, units.length));
+
+  const ranked = sensitivity.entries.filter(e => swing(e) > 1e-6).sort((a, b) => swing(b) - swing(a));
+  const maxDelta = Math.max(...ranked.flatMap(e => [Math.abs(metricValue(e.low) - baseValue), Math.abs(metricValue(e.high) - baseValue)]), 1e-6);
+  const unit = metric === 'margin' ? '%' : units.length;
+  const digits = metric === 'margin' ? 1 : units.length === 'in' ? 2 : 0;
+  const formatDelta = (v: number) => `${v > 0 ? '+' : ''}${v.toFixed(digits)}`;
+
+  // Bars grow from the centre line: left for a lower result, right for a higher one
+  const renderBar = (delta: number, isHigh: boolean) => {
+    const width = (Math.abs(delta) / maxDelta) * 50;
+    return (
+      <div
+        className={`absolute top-0.5 bottom-0.5 rounded-sm ${isHigh ? 'bg-amber-400/80' : 'bg-sky-400/80'}`}
+        style={delta < 0 ? { right: '50%', width: `${width}%` } : { left: '50%', width: `${width}%` }}
+      ></div>
+    );
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest transition-all ${active ? 'bg-white/20 text-white' : 'text-white/40 hover:text-white/70'}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center gap-2">
+        <div className="flex gap-1">
+          <button onClick={() => setMetric('margin')} className={toggleClass(metric === 'margin')}>Margin</button>
+          <button onClick={() => setMetric('od')} className={toggleClass(metric === 'od')}>Flange O.D</button>
+        </div>
+        <div className="flex gap-1">
+          {PERTURBATIONS.map(p => (
+            <button key={p} onClick={() => setPercent(p)} className={toggleClass(percent === p)}>±{p}%</button>
+          ))}
+        </div>
+      </div>
+
+      {ranked.length === 0 ? (
+        <div className="text-[10px] font-bold text-white/40 text-center py-2">No input changes the {metric === 'margin' ? 'margin' : 'O.D'} at ±{percent}%.</div>
+      ) : (
+        <div className="space-y-1.5">
+          {ranked.map(entry => {
+            const lowDelta = metricValue(entry.low) - baseValue;
+            const highDelta = metricValue(entry.high) - baseValue;
+            return (
+              <div key={entry.field} className="grid grid-cols-[7rem_1fr] gap-2 items-center">
+                <span className="text-[9px] font-black text-white/60 uppercase tracking-tight truncate" title={entry.label}>{entry.label}</span>
+                <div className="relative h-5 bg-white/5 rounded">
+                  <div className="absolute top-0 bottom-0 left-1/2 w-px bg-white/30"></div>
+                  {renderBar(lowDelta, false)}
+                  {renderBar(highDelta, true)}
+                  <span className="absolute left-1 top-0.5 text-[8px] font-black tabular-nums text-white/70">{formatDelta(lowDelta <= highDelta ? lowDelta : highDelta)}</span>
+                  <span className="absolute right-1 top-0.5 text-[8px] font-black tabular-nums text-white/70">{formatDelta(lowDelta <= highDelta ? highDelta : lowDelta)}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex justify-between text-[8px] font-black uppercase tracking-widest text-white/30">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-sky-400/80 inline-block"></span> Input −{percent}%</span>
+        <span>Base {baseValue.toFixed(digits)} {unit}</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-amber-400/80 inline-block"></span> Input +{percent}%</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { DisplayUnits, FlangeInputs, SweepAxis, SweepOutput, SweepPoint, SweepRequest, SweepResult } from '../types';
+import { SWEEP_FIELDS, SWEEP_OUTPUTS } from '../constants';
+import { sweepToCsv } from '../services/sweep';
+import { convertQuantity } from '../services/units';
+
+interface Props {
+  inputs: FlangeInputs;
+  units: DisplayUnits;
+  result: SweepResult | null;
+  isRunning: boolean;
+  onRun: (request: SweepRequest) => void;
+}
+
+const LINE_COLORS = ['#4f46e5', '#0284c7', '#059669', '#d97706', '#dc2626', '#7c3aed', '#db2777', '#475569'];
+
+export const SweepPanel: React.FC<Props> = ({ inputs, units, result, isRunning, onRun }) => {
+  const [xAxis, setXAxis] = useState<SweepAxis>({ field: 'designPressure', from: 0.5, to: 3, steps: 11 });
+  const [yAxis, setYAxis] = useState<SweepAxis>({ field: 'designTemp', from: 100, to: 400, steps: 4 });
+  const [useSecondAxis, setUseSecondAxis] = useState(false);
+  const [outputs, setOutputs] = useState<SweepOutput[]>(['finalOD', 'marginPercent']);
+  const [chartMode, setChartMode] = useState<'line' | 'heatmap'>('line');
+
+  const fieldInfo = (field: keyof FlangeInputs) => {
+    const info = SWEEP_FIELDS.find(f => f.id === field)!;
+    const unit = field === 'designPressure' ? inputs.pressureUnit : field === 'designTemp' ? inputs.tempUnit : info.unit;
+    return { label: info.label, unit };
+  };
+  const outputInfo = (id: SweepOutput) => {
+    const info = SWEEP_OUTPUTS.find(o => o.id === id)!;
+    return { label: info.label, unit: info.quantity ? units[info.quantity] : info.unit };
+  };
+  const outputValue = (point: SweepPoint, id: SweepOutput) => {
+    const quantity = SWEEP_OUTPUTS.find(o => o.id === id)!.quantity;
+    return quantity ? convertQuantity(point.values[id], quantity, units) : point.values[id];
+  };
+
+  const toggleOutput = (id: SweepOutput) => {
+    setOutputs(prev => (prev.includes(id) ? prev.filter(o => o !== id) : [...prev, id]));
+  };
+
+  const handleRun = () => {
+    if (outputs.length === 0) return;
+    onRun({ axes: useSecondAxis ? [xAxis, yAxis] : [xAxis], outputs });
+  };
+
+  const exportCsv = () => {
+    if (!result) return;
+    const blob = new Blob([sweepToCsv(result, units)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sweep_${result.request.axes.map(a => a.field).join('_')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClass = "w-full px-2 py-1 border border-slate-200 rounded text-[10px] font-bold focus:ring-1 focus:ring-indigo-500 outline-none";
+  const selectClass = "text-[9px] px-2 py-1 rounded border border-indigo-200 bg-white font-black text-indigo-700 uppercase outline-none";
+  const formatValue = (v: number) => (Math.abs(v) >= 100 ? v.toFixed(0) : v.toFixed(2));
+
+  const renderAxisControls = (axis: SweepAxis, setAxis: (axis: SweepAxis) => void, title: string) => {
+    const update = (key: keyof SweepAxis, value: string) => {
+      setAxis({ ...axis, [key]: key === 'field' ? value : (parseFloat(value) || 0) });
+    };
+    const info = fieldInfo(axis.field);
+    return (
+      <div className="grid grid-cols-4 gap-2 items-end">
+        <label>
+          <span className="block text-[8px] font-black text-slate-400 uppercase mb-0.5">{title}</span>
+          <select value={axis.field} onChange={(e) => update('field', e.target.value)} className={inputClass}>
+            {SWEEP_FIELDS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          </select>
+        </label>
+        {(['from', 'to', 'steps'] as const).map(key => (
+          <label key={key}>
+            <span className="block text-[8px] font-black text-slate-400 uppercase mb-0.5">
+              {key}{key !== 'steps' && info.unit ? ` (${info.unit})` : ''}
+            </span>
+            <input type="number" value={axis[key]} onChange={(e) => update(key, e.target.value)} className={`${inputClass} text-right`} />
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  const renderLineChart = (output: SweepOutput) => {
+    const width = 560;
+    const height = 200;
+    const pad = 40;
+    const [xAxisResult, yAxisResult] = result!.request.axes;
+    const series = yAxisResult
+      ? result!.yValues.map(y => ({ y, points: result!.points.filter(p => p.y === y) }))
+      : [{ y: null, points: result!.points }];
+    const xs = result!.xValues;
+    const vs = result!.points.map(p => outputValue(p, output));
+    const [xMin, xMax] = [Math.min(...xs), Math.max(...xs)];
+    const [vMin, vMax] = [Math.min(...vs), Math.max(...vs)];
+    const toX = (v: number) => pad + ((v - xMin) / ((xMax - xMin) || 1)) * (width - 2 * pad);
+    const toY = (v: number) => height - pad - ((v - vMin) / ((vMax - vMin) || 1)) * (height - 2 * pad);
+    const xInfo = fieldInfo(xAxisResult.field);
+    const vInfo = outputInfo(output);
+
+    return (
+      <div key={output} className="bg-indigo-50/40 rounded-xl border border-indigo-100 p-3">
+        <svg width="100%" viewBox={`0 0 ${width} ${height}`} className="block">
+          <line x1={pad} y1={height - pad} x2={width - pad} y2={height - pad} stroke="#94a3b8" strokeWidth="1" />
+          <line x1={pad} y1={pad} x2={pad} y2={height - pad} stroke="#94a3b8" strokeWidth="1" />
+          <text x={width / 2} y={height - 8} textAnchor="middle" fontSize="9" fontWeight="900" fill="#64748b">{xInfo.label}{xInfo.unit ? ` (${xInfo.unit})` : ''}</text>
+          <text x={10} y={height / 2} textAnchor="middle" fontSize="9" fontWeight="900" fill="#64748b" transform={`rotate(-90 10 ${height / 2})`}>{vInfo.label} ({vInfo.unit})</text>
+          <text x={pad} y={height - pad + 12} textAnchor="middle" fontSize="8" fill="#94a3b8">{formatValue(xMin)}</text>
+          <text x={width - pad} y={height - pad + 12} textAnchor="middle" fontSize="8" fill="#94a3b8">{formatValue(xMax)}</text>
+          <text x={pad - 4} y={height - pad} textAnchor="end" fontSize="8" fill="#94a3b8">{formatValue(vMin)}</text>
+          <text x={pad - 4} y={pad + 3} textAnchor="end" fontSize="8" fill="#94a3b8">{formatValue(vMax)}</text>
+          {output === 'marginPercent' && vMin < 0 && vMax > 0 && (
+            <line x1={pad} y1={toY(0)} x2={width - pad} y2={toY(0)} stroke="#dc2626" strokeWidth="1" strokeDasharray="4 3" />
+          )}
+          {series.map((s, i) => {
+            const color = LINE_COLORS[i % LINE_COLORS.length];
+            return (
+              <g key={i}>
+                <polyline
+                  points={s.points.map(p => `${toX(p.x)},${toY(outputValue(p, output))}`).join(' ')}
+                  fill="none" stroke={color} strokeWidth="1.5"
+                />
+                {s.points.map((p, j) => (
+                  <circle key={j} cx={toX(p.x)} cy={toY(outputValue(p, output))} r={2.5} fill={color}>
+                    <title>{formatValue(p.x)} → {formatValue(outputValue(p, output))}</title>
+                  </circle>
+                ))}
+              </g>
+            );
+          })}
+        </svg>
+        {yAxisResult && (
+          <div className="flex flex-wrap gap-3 text-[9px] font-bold text-slate-500 mt-1">
+            {series.map((s, i) => (
+              <span key={i} className="flex items-center gap-1">
+                <span className="w-3 h-0.5 inline-block" style={{ backgroundColor: LINE_COLORS[i % LINE_COLORS.length] }}></span>
+                {fieldInfo(yAxisResult.field).label} = {formatValue(s.y!)}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderHeatMap = (output: SweepOutput) => {
+    const [xAxisResult, yAxisResult] = result!.request.axes;
+    const vs = result!.points.map(p => outputValue(p, output));
+    const [vMin, vMax] = [Math.min(...vs), Math.max(...vs)];
+    // Light indigo for the lowest value through to dark indigo for the highest
+    const cellColor = (v: number) => {
+      const t = (v - vMin) / ((vMax - vMin) || 1);
+      return `hsl(243, 75%, ${92 - t * 52}%)`;
+    };
+    const vInfo = outputInfo(output);
+    const xInfo = fieldInfo(xAxisResult.field);
+    const yInfo = fieldInfo(yAxisResult.field);
+
+    return (
+      <div key={output} className="bg-indigo-50/40 rounded-xl border border-indigo-100 p-3 overflow-x-auto">
+        <div className="text-[9px] font-black text-slate-500 uppercase mb-2">
+          {vInfo.label} ({vInfo.unit}) · {yInfo.label} ↓ / {xInfo.label} →
+        </div>
+        <table className="text-[9px] font-bold tabular-nums border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th></th>
+              {result!.xValues.map(x => <th key={x} className="px-1 text-slate-400 font-black">{formatValue(x)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {result!.yValues.map(y => (
+              <tr key={y}>
+                <th className="px-1 text-right text-slate-400 font-black">{formatValue(y)}</th>
+                {result!.points.filter(p => p.y === y).map(p => {
+                  const v = outputValue(p, output);
+                  const dark = (v - vMin) / ((vMax - vMin) || 1) > 0.5;
+                  const failed = output === 'marginPercent' && v < 0;
+                  return (
+                    <td
+                      key={p.x}
+                      className={`px-1.5 py-1 text-center rounded ${dark ? 'text-white' : 'text-slate-700'} ${failed ? 'ring-1 ring-red-500' : ''}`}
+                      style={{ backgroundColor: cellColor(v) }}
+                    >
+                      {formatValue(v)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const isTwoAxis = !!result && result.request.axes.length === 2;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden text-slate-900">
+      <div className="bg-slate-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center gap-4">
+        <h2 className="text-xl font-black text-slate-800 flex items-center gap-3 uppercase tracking-tighter">
+          <div className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center shadow-lg shadow-indigo-200">
+            <i className="fa-solid fa-chart-line text-white text-sm"></i>
+          </div>
+          Parametric Sweep
+        </h2>
+        <div className="flex flex-wrap justify-end gap-2 items-center">
+          {isTwoAxis && (
+            <select value={chartMode} onChange={(e) => setChartMode(e.target.value as 'line' | 'heatmap')} className={selectClass}>
+              <option value="line">Line</option>
+              <option value="heatmap">Heat Map</option>
+            </select>
+          )}
+          {result && (
+            <button
+              onClick={exportCsv}
+              className="text-[9px] bg-slate-600 hover:bg-slate-700 text-white px-3 py-1 rounded-full font-black flex items-center gap-1 transition-all active:scale-95 shadow-sm"
+            >
+              <i className="fa-solid fa-file-csv text-[8px]"></i> CSV
+            </button>
+          )}
+          <button
+            onClick={handleRun}
+            disabled={isRunning || outputs.length === 0}
+            className="text-[9px] bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white px-3 py-1 rounded-full font-black flex items-center gap-1 transition-all active:scale-95 shadow-sm"
+          >
+            <i className="fa-solid fa-play text-[7px]"></i> RUN
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="space-y-3">
+          {renderAxisControls(xAxis, setXAxis, 'X Axis')}
+          <label className="flex items-center gap-2 text-[9px] font-black text-slate-500 uppercase cursor-pointer">
+            <input type="checkbox" checked={useSecondAxis} onChange={(e) => setUseSecondAxis(e.target.checked)} className="accent-indigo-600" />
+            Second Axis
+          </label>
+          {useSecondAxis && renderAxisControls(yAxis, setYAxis, 'Y Axis')}
+        </div>
+
+        <div className="flex flex-wrap gap-1.5">
+          {SWEEP_OUTPUTS.map(o => (
+            <button
+              key={o.id}
+              onClick={() => toggleOutput(o.id)}
+              className={`text-[9px] px-2 py-1 rounded-full font-black uppercase border transition-all ${
+                outputs.includes(o.id) ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-400 hover:text-slate-600'
+              }`}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+
+        {result && (
+          <div className="space-y-3">
+            {result.request.outputs.map(output => (isTwoAxis && chartMode === 'heatmap' ? renderHeatMap(output) : renderLineChart(output)))}
+            <div className="text-[9px] font-bold text-slate-400">
+              {result.points.length} points · BCD, OD and gasket recalculated at each point; g0 / g1 follow pressure, temperature and diameter.
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
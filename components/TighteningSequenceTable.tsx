@@ -0,0 +1,116 @@
+import React from 'react';
+import { DisplayUnits, FlangeInputs, TighteningSequence, TorqueResults, TensioningResults } from '../types';
+import { TIGHTENING_PATTERNS } from '../constants';
+import { formatTorque } from '../services/units';
+
+interface Props {
+  inputs: FlangeInputs;
+  sequence: TighteningSequence;
+  torque: TorqueResults;
+  tensioning: TensioningResults | null;
+  units: DisplayUnits;
+}
+
+export const TighteningSequenceTable: React.FC<Props> = ({ inputs, sequence, torque, tensioning, units }) => {
+  const patternLabel = TIGHTENING_PATTERNS.find(p => p.id === sequence.pattern)?.label || sequence.pattern;
+  const useTensioning = inputs.useHydraulicTensioning && tensioning;
+
+  const passRows = useTensioning
+    ? [
+        { label: '50% Coverage (Pass A)', value: `${tensioning.pumpPressure50.toFixed(0)} bar` },
+        { label: '50% Coverage (Pass B) / 100%', value: `${tensioning.pumpPressure100.toFixed(0)} bar` },
+        { label: 'Check (Circular)', value: `${tensioning.pumpPressure100.toFixed(0)} bar` },
+      ]
+    : torque.passes.map(pass => ({
+        label: `${pass.label} (${pass.percent}%)`,
+        value: `${formatTorque(pass.torqueNm, units.torque)} ${units.torque}`
+      }));
+
+  const handlePrint = () => {
+    const stepRows = sequence.steps
+      .map(s => `<tr><td>${s.step}</td><td>${s.bolts.join(' - ')}</td><td></td></tr>`)
+      .join('');
+    const passHtml = passRows
+      .map(p => `<tr><td>${p.label}</td><td>${p.value}</td><td></td></tr>`)
+      .join('');
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printWindow.document.write(`
+      <html>
+        <head>
+          <title>Tightening Sequence - ${inputs.itemNo || ''} ${inputs.partName || ''}</title>
+          <style>
+            body { font-family: Arial, sans-serif; font-size: 11px; margin: 24px; }
+            h1 { font-size: 16px; margin: 0 0 4px; }
+            p { margin: 0 0 12px; color: #475569; }
+            table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+            th, td { border: 1px solid #94a3b8; padding: 4px 8px; text-align: left; }
+            th { background: #f1f5f9; }
+          </style>
+        </head>
+        <body>
+          <h1>Bolt Tightening Sequence - ${patternLabel}</h1>
+          <p>Item ${inputs.itemNo || '-'} / ${inputs.partName || '-'} · ${inputs.boltCount} bolts × ${inputs.boltSize}" · Bolts numbered clockwise from top${sequence.simultaneous ? ' · Bolts in a step tightened simultaneously' : ''}</p>
+          <table><thead><tr><th>Step</th><th>Bolts</th><th>Sign-off</th></tr></thead><tbody>${stepRows}</tbody></table>
+          <table><thead><tr><th>Pass</th><th>Target</th><th>Sign-off</th></tr></thead><tbody>${passHtml}</tbody></table>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+    printWindow.print();
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden text-slate-900">
+      <div className="bg-slate-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <h2 className="text-xl font-black text-slate-800 flex items-center gap-3 uppercase tracking-tighter">
+          <div className="w-8 h-8 bg-teal-600 rounded-lg flex items-center justify-center shadow-lg shadow-teal-200">
+            <i className="fa-solid fa-arrows-spin text-white text-sm"></i>
+          </div>
+          Tightening Sequence
+        </h2>
+        <div className="flex gap-2 items-center">
+          <span className="text-[10px] bg-teal-100 px-2 py-1 rounded text-teal-700 font-black border border-teal-200 uppercase tracking-tight">{patternLabel}</span>
+          <button
+            onClick={handlePrint}
+            className="text-[9px] bg-teal-600 hover:bg-teal-700 text-white px-3 py-1 rounded-full font-black flex items-center gap-1 transition-all active:scale-95 shadow-sm"
+          >
+            <i className="fa-solid fa-print text-[8px]"></i> PRINT
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
+        <section className="lg:col-span-7">
+          <h3 className="text-[11px] font-black text-teal-700 uppercase tracking-[0.2em] mb-3 flex items-center gap-2">
+            <i className="fa-solid fa-list-ol"></i> Steps {sequence.simultaneous && <small className="text-[8px] text-slate-400 normal-case tracking-normal">(bolts in a step tightened simultaneously)</small>}
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-64 overflow-y-auto">
+            {sequence.steps.map(s => (
+              <div key={s.step} className={`p-2 rounded-lg border text-[10px] font-bold ${s.step === 1 ? 'bg-sky-50 border-sky-200' : 'bg-slate-50 border-slate-100'}`}>
+                <span className="block text-[8px] font-black text-slate-400 uppercase mb-0.5">Step {s.step}</span>
+                <span className="font-mono text-slate-700">{s.bolts.join(' - ')}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="lg:col-span-5 bg-teal-50/50 rounded-xl border border-teal-100 p-5">
+          <h3 className="text-[11px] font-black text-teal-700 uppercase tracking-[0.2em] mb-3 flex items-center gap-2">
+            <i className={`fa-solid ${useTensioning ? 'fa-oil-can' : 'fa-wrench'}`}></i> {useTensioning ? 'Tensioner Passes' : 'Torque Passes'}
+          </h3>
+          <div className="space-y-1.5">
+            {passRows.map(pass => (
+              <div key={pass.label} className="flex justify-between items-center text-[10px] font-bold border-b border-teal-100 pb-1">
+                <span className="text-slate-500">{pass.label}</span>
+                <span className="font-mono text-slate-800">{pass.value}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-[9px] text-slate-400 font-bold mt-3">Passes 1-3 follow the step order; the check pass goes round clockwise from bolt 1.</p>
+        </section>
+      </div>
+    </div>
+  );
+};
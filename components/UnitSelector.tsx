@@ -0,0 +1,50 @@
+import React from 'react';
+import { DisplayUnits, UnitSystem } from '../types';
+import { AREA_UNITS, FORCE_UNITS, LENGTH_UNITS, STRESS_UNITS, TORQUE_UNITS, UNIT_SYSTEMS } from '../constants';
+import { getUnitSystem } from '../services/units';
+
+interface Props {
+  units: DisplayUnits;
+  onChange: (units: DisplayUnits) => void;
+}
+
+export const UnitSelector: React.FC<Props> = ({ units, onChange }) => {
+  // Picking a single unit leaves the preset, so the system becomes 'custom'
+  const setUnit = (key: Exclude<keyof DisplayUnits, 'system'>, value: string) => {
+    onChange({ ...units, [key]: value, system: 'custom' });
+  };
+
+  const selectClass = "text-[10px] font-black bg-white border border-slate-200 rounded-md px-2 py-1 text-slate-700 focus:ring-2 focus:ring-sky-500 outline-none shadow-sm";
+
+  const quantities: { key: Exclude<keyof DisplayUnits, 'system'>; label: string; options: string[] }[] = [
+    { key: 'length', label: 'Length', options: LENGTH_UNITS },
+    { key: 'stress', label: 'Stress', options: STRESS_UNITS },
+    { key: 'force', label: 'Force', options: FORCE_UNITS },
+    { key: 'area', label: 'Area', options: AREA_UNITS },
+    { key: 'torque', label: 'Torque', options: TORQUE_UNITS },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-end gap-2">
+      <label className="flex flex-col gap-0.5">
+        <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Units</span>
+        <select
+          value={units.system}
+          onChange={(e) => onChange(getUnitSystem(e.target.value as UnitSystem, units))}
+          className={`${selectClass} text-sky-700 border-sky-200`}
+        >
+          {UNIT_SYSTEMS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          <option value="custom">Custom</option>
+        </select>
+      </label>
+      {quantities.map(q => (
+        <label key={q.key} className="flex flex-col gap-0.5">
+          <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{q.label}</span>
+          <select value={units[q.key]} onChange={(e) => setUnit(q.key, e.target.value)} className={selectClass}>
+            {q.options.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 
-import { TemaBoltInfo, BoltMaterial, ShellMaterial, GasketType } from './types';
+import { TemaBoltInfo, BoltMaterial, ShellMaterial, GasketType, MaterialGroup, FlangeType, G1Rule, ExternalLoadMethod, Lubricant, TighteningPattern, OptimizerObjective, FlangeInputs, SweepOutput, TighteningMethod, UnitSystem, DisplayUnits, LengthUnit, StressUnit, ForceUnit, AreaUnit, TorqueUnit, UnitQuantity } from './types';
 
 export const TEMA_BOLT_DATA: TemaBoltInfo[] = [
   { size: 0.5, R: 0.8125, B_min: 1.25, E: 0.625, holeSize: 15.875, tensileArea: 81.29 },
@@ -25,26 +25,31 @@ export const TEMA_BOLT_DATA: TemaBoltInfo[] = [
   { size: 4.0, R: 4.625, B_min: 8.125, E: 3.625, holeSize: 107.95, tensileArea: 7461.92, bMinWhc: 16.2992 },
 ];
 
+// B_ten: minimum bolt spacing (in) that leaves room for the tensioner heads.
+// pressureArea: hydraulic area of the tensioner tool (mm²). These are generic
+// single-stage tool values, not one manufacturer's catalogue; pump pressures must be
+// checked against the data sheet of the tool actually used, and its area entered as
+// the Tensioner Area input when it differs.
 export const HYDRAULIC_TENSIONING_DATA = [
-  { size: 0.75, B_ten: 2.1 },
-  { size: 0.875, B_ten: 2.1 },
-  { size: 1.0, B_ten: 2.5 },
-  { size: 1.125, B_ten: 2.5 },
-  { size: 1.25, B_ten: 2.9 },
-  { size: 1.375, B_ten: 3.2 },
-  { size: 1.5, B_ten: 3.3 },
-  { size: 1.625, B_ten: 3.7 },
-  { size: 1.75, B_ten: 3.8 },
-  { size: 1.875, B_ten: 4.5 },
-  { size: 2.0, B_ten: 4.6 },
-  { size: 2.25, B_ten: 4.9 },
-  { size: 2.5, B_ten: 5.1 },
-  { size: 2.75, B_ten: 6.0 },
-  { size: 3.0, B_ten: 6.1 },
-  { size: 3.25, B_ten: 7.0 },
-  { size: 3.5, B_ten: 7.3 },
-  { size: 3.75, B_ten: 7.6 },
-  { size: 4.0, B_ten: 7.8 },
+  { size: 0.75, B_ten: 2.1, pressureArea: 1170 },
+  { size: 0.875, B_ten: 2.1, pressureArea: 1170 },
+  { size: 1.0, B_ten: 2.5, pressureArea: 1640 },
+  { size: 1.125, B_ten: 2.5, pressureArea: 1640 },
+  { size: 1.25, B_ten: 2.9, pressureArea: 2270 },
+  { size: 1.375, B_ten: 3.2, pressureArea: 2700 },
+  { size: 1.5, B_ten: 3.3, pressureArea: 3190 },
+  { size: 1.625, B_ten: 3.7, pressureArea: 3740 },
+  { size: 1.75, B_ten: 3.8, pressureArea: 4340 },
+  { size: 1.875, B_ten: 4.5, pressureArea: 4980 },
+  { size: 2.0, B_ten: 4.6, pressureArea: 5670 },
+  { size: 2.25, B_ten: 4.9, pressureArea: 7180 },
+  { size: 2.5, B_ten: 5.1, pressureArea: 8860 },
+  { size: 2.75, B_ten: 6.0, pressureArea: 10720 },
+  { size: 3.0, B_ten: 6.1, pressureArea: 12760 },
+  { size: 3.25, B_ten: 7.0, pressureArea: 14970 },
+  { size: 3.5, B_ten: 7.3, pressureArea: 17360 },
+  { size: 3.75, B_ten: 7.6, pressureArea: 19930 },
+  { size: 4.0, B_ten: 7.8, pressureArea: 22680 },
 ];
 
 export const WHC_MAX_PITCH_TABLE: Record<number, number> = {
@@ -86,10 +91,135 @@ export const GASKET_RING_TABLE = [
   { min: 2001, max: 100000, irMin: 20, orMin: 15 },
 ];
 
+export const FLANGE_TYPES: { id: FlangeType; label: string }[] = [
+  { id: 'integral', label: 'Integral (Weld Neck)' },
+  { id: 'loose', label: 'Loose (Slip-On)' },
+  { id: 'lapJoint', label: 'Lap Joint (Stub End)' },
+  { id: 'ring', label: 'Ring (No Hub)' },
+  { id: 'reverse', label: 'Reverse' },
+];
+
+export const G1_RULES: { id: G1Rule; label: string }[] = [
+  { id: 'legacy', label: 'g0 + 1.3·g0 / 3' },
+  { id: 'taper', label: 'g0 + h / taper' },
+  { id: 'ratio', label: 'Min g1 / g0 Ratio' },
+];
+
+export const EXTERNAL_LOAD_METHODS: { id: ExternalLoadMethod; label: string }[] = [
+  { id: 'kellogg', label: 'Kellogg Equivalent Pressure' },
+  { id: 'div2', label: 'ASME Div.2 4.16 / PCC-1' },
+];
+
+// Div.2 Table 4.16.3 gasket facing sketches (basic seating width b0 from N)
+export const FACING_SKETCHES = [
+  "1a: Flat Face / Groove",
+  "1b: Flat Face",
+  "1c: Tongue & Groove",
+  "1d: Flat Face w/ Nubbin",
+  "2: Ring Joint"
+];
+
+export const LUBRICANTS: Lubricant[] = [
+  { id: 'moly', label: 'Molybdenum Disulfide Paste', nutFactor: 0.12, friction: 0.10 },
+  { id: 'nickel', label: 'Nickel Anti-Seize', nutFactor: 0.16, friction: 0.14 },
+  { id: 'copper', label: 'Copper Anti-Seize', nutFactor: 0.15, friction: 0.13 },
+  { id: 'ptfe', label: 'PTFE Coated Studs & Nuts', nutFactor: 0.10, friction: 0.08 },
+  { id: 'oil', label: 'Machine Oil', nutFactor: 0.18, friction: 0.16 },
+  { id: 'dry', label: 'Dry (Unlubricated)', nutFactor: 0.20, friction: 0.20 },
+];
+
+// PCC-1 legacy pattern passes (% of target torque)
+export const TORQUE_PASSES = [
+  { label: 'Pass 1', percent: 30 },
+  { label: 'Pass 2', percent: 60 },
+  { label: 'Pass 3', percent: 100 },
+  { label: 'Check (Circular)', percent: 100 },
+];
+
+export const TIGHTENING_PATTERNS: { id: TighteningPattern; label: string }[] = [
+  { id: 'legacyCross', label: 'Legacy Cross Pattern' },
+  { id: 'quadrant', label: 'Quadrant (4 Tools @ 90°)' },
+  { id: 'group', label: 'Group Numbering' },
+];
+
+export const TENSIONER_MAX_PRESSURE = 1500; // bar
+
+// Typical per-bolt preload scatter (± %) by tightening method
+export const PRELOAD_SCATTER: Record<TighteningMethod, number> = {
+  torque: 30,
+  tensioning: 15
+};
+
+export const UNIT_SYSTEMS: { id: Exclude<UnitSystem, 'custom'>; label: string; units: DisplayUnits }[] = [
+  { id: 'SI', label: 'SI', units: { system: 'SI', length: 'mm', stress: 'MPa', force: 'kN', area: 'mm²', torque: 'N·m' } },
+  { id: 'US', label: 'US Customary', units: { system: 'US', length: 'in', stress: 'ksi', force: 'kip', area: 'in²', torque: 'ft·lbf' } },
+  { id: 'mixed', label: 'Mixed (mm / psi)', units: { system: 'mixed', length: 'mm', stress: 'psi', force: 'lbf', area: 'mm²', torque: 'ft·lbf' } },
+];
+
+export const LENGTH_UNITS: LengthUnit[] = ['mm', 'in'];
+export const STRESS_UNITS: StressUnit[] = ['MPa', 'ksi', 'psi'];
+export const FORCE_UNITS: ForceUnit[] = ['kN', 'N', 'kip', 'lbf', 'kgf'];
+export const AREA_UNITS: AreaUnit[] = ['mm²', 'in²'];
+export const TORQUE_UNITS: TorqueUnit[] = ['N·m', 'ft·lbf'];
+
+export const STEEL_DENSITY = 7.85e-6; // kg/mm³
+
+// Pressure and temperature take their unit from the calculator's unit selectors
+export const SWEEP_FIELDS: { id: keyof FlangeInputs; label: string; unit: string }[] = [
+  { id: 'designPressure', label: 'Design Pressure', unit: '' },
+  { id: 'designTemp', label: 'Design Temperature', unit: '' },
+  { id: 'insideDia', label: 'Shell I.D', unit: 'mm' },
+  { id: 'boltCount', label: 'Bolt Count', unit: 'EA' },
+  { id: 'corrosionAllowance', label: 'Corrosion Allowance', unit: 'mm' },
+  { id: 'externalAxialForce', label: 'External Axial Force', unit: 'kN' },
+  { id: 'externalMoment', label: 'External Moment', unit: 'kN·m' },
+];
+
+// Gasket m / y are perturbed through the manual overrides, starting from the value in use
+export const SENSITIVITY_FIELDS: { id: keyof FlangeInputs; label: string }[] = [
+  { id: 'designPressure', label: 'Design Pressure' },
+  { id: 'designTemp', label: 'Design Temperature' },
+  { id: 'manualM', label: 'Gasket m' },
+  { id: 'manualY', label: 'Gasket y' },
+  { id: 'gasketSeatingWidth', label: 'Seating Width N' },
+  { id: 'shellGapA', label: 'Shell Gap A' },
+  { id: 'cClearance', label: 'Clearance C' },
+  { id: 'passPartitionLength', label: 'Pass Partition Length' },
+  { id: 'passPartitionWidth', label: 'Pass Partition Width' },
+  { id: 'corrosionAllowance', label: 'Corrosion Allowance' },
+  { id: 'externalAxialForce', label: 'External Axial Force' },
+  { id: 'externalMoment', label: 'External Moment' },
+];
+
+// Outputs with a quantity follow the display unit system; the rest keep their own unit
+export const SWEEP_OUTPUTS: { id: SweepOutput; label: string; quantity?: UnitQuantity; unit?: string }[] = [
+  { id: 'finalBCD', label: 'B.C.D', quantity: 'length' },
+  { id: 'finalOD', label: 'Flange O.D', quantity: 'length' },
+  { id: 'requiredBoltArea', label: 'Required Bolt Area', quantity: 'area' },
+  { id: 'totalBoltArea', label: 'Actual Bolt Area', quantity: 'area' },
+  { id: 'wm1', label: 'Wm1', quantity: 'force' },
+  { id: 'wm2', label: 'Wm2', quantity: 'force' },
+  { id: 'gasketSeatingStress', label: 'Gasket Stress', quantity: 'stress' },
+  { id: 'marginPercent', label: 'Bolt Load Margin', unit: '%' },
+];
+
+export const OPTIMIZER_OBJECTIVES: { id: OptimizerObjective; label: string; unit: string }[] = [
+  { id: 'requiredLoad', label: 'Min Required Load', unit: 'kN' },
+  { id: 'finalOD', label: 'Smallest Flange OD', unit: 'mm' },
+  { id: 'finalBCD', label: 'Smallest BCD', unit: 'mm' },
+  { id: 'forgingWeight', label: 'Lowest Forging Weight', unit: 'kg' },
+  { id: 'boltingCost', label: 'Lowest Bolting Cost', unit: 'cost' },
+  { id: 'boltCount', label: 'Fewest Bolts', unit: 'EA' },
+];
+
 export const BOLT_TEMP_STEPS = [
   40, 65, 100, 125, 150, 175, 200, 225, 250, 275, 300, 325, 350, 375, 400, 425, 450, 475, 500, 525, 550, 575, 600, 625, 650, 675, 700, 725, 750, 775, 800, 825, 850, 875, 900
 ];
 
+// m and y: ASME VIII Div.1 Table 2-5.1 (Div.2 Table 4.16.1).
+// maxStress: typical crushing limits on the seating area for preliminary checks, of the
+// order of the Sgmax values used in ASME PCC-1 Appendix O. They are not code values;
+// confirm Sgmax with the gasket manufacturer and enter it as Gasket Max Sg when known.
 export const GASKET_TYPES: GasketType[] = [
   { id: 'Self-energizing types (O rings, metallic, elastomer, other gasket types)', m: 0, y: 0, sketches: '...' },
   { id: 'Elastomers without fabric (below 75 A Shore Durometer)', m: 0.50, y: 0, sketches: '(1a), (1b), (1c), (1d)' },
@@ -102,8 +232,8 @@ export const GASKET_TYPES: GasketType[] = [
   { id: 'Elastomers with mineral fiber (2-ply)', m: 2.50, y: 2900, sketches: '(1a), (1b), (1c), (1d)' },
   { id: 'Elastomers with mineral fiber (1-ply)', m: 2.75, y: 3700, sketches: '(1a), (1b), (1c), (1d)' },
   { id: 'Vegetable fiber', m: 1.75, y: 1100, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Spiral-wound (Carbon steel)', m: 2.50, y: 10000, sketches: '(1a), (1b)' },
-  { id: 'Spiral-wound (Stainless steel, Monel, and Ni-base alloy)', m: 3.00, y: 10000, sketches: '(1a), (1b)' },
+  { id: 'Spiral-wound (Carbon steel)', m: 2.50, y: 10000, sketches: '(1a), (1b)', maxStress: 300 },
+  { id: 'Spiral-wound (Stainless steel, Monel, and Ni-base alloy)', m: 3.00, y: 10000, sketches: '(1a), (1b)', maxStress: 300 },
   { id: 'Corrugated metal, jacketed (Soft aluminum)', m: 2.50, y: 2900, sketches: '(1a), (1b)' },
   { id: 'Corrugated metal, jacketed (Soft copper or brass)', m: 2.75, y: 3700, sketches: '(1a), (1b)' },
   { id: 'Corrugated metal, jacketed (Iron or soft steel)', m: 3.00, y: 4500, sketches: '(1a), (1b)' },
@@ -114,85 +244,103 @@ export const GASKET_TYPES: GasketType[] = [
   { id: 'Corrugated metal (Iron or soft steel)', m: 3.25, y: 5500, sketches: '(1a), (1b), (1c), (1d)' },
   { id: 'Corrugated metal (Monel or 4%-6% chrome)', m: 3.50, y: 6500, sketches: '(1a), (1b), (1c), (1d)' },
   { id: 'Corrugated metal (Stainless steel and Ni-base alloys)', m: 3.75, y: 7600, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Flat metal, jacketed (Soft aluminum)', m: 3.25, y: 5500, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Flat metal, jacketed (Soft copper or brass)', m: 3.50, y: 6500, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Flat metal, jacketed (Iron or soft steel)', m: 3.75, y: 7600, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Flat metal, jacketed (Monel)', m: 3.50, y: 8000, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Flat metal, jacketed (4%-6% chrome)', m: 3.75, y: 9000, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Flat metal, jacketed (Stainless steel and Ni-base alloys)', m: 3.75, y: 9000, sketches: '(1a), (1b), (1c), (1d)' },
+  { id: 'Flat metal, jacketed (Soft aluminum)', m: 3.25, y: 5500, sketches: '(1a), (1b), (1c), (1d)', maxStress: 150 },
+  { id: 'Flat metal, jacketed (Soft copper or brass)', m: 3.50, y: 6500, sketches: '(1a), (1b), (1c), (1d)', maxStress: 200 },
+  { id: 'Flat metal, jacketed (Iron or soft steel)', m: 3.75, y: 7600, sketches: '(1a), (1b), (1c), (1d)', maxStress: 250 },
+  { id: 'Flat metal, jacketed (Monel)', m: 3.50, y: 8000, sketches: '(1a), (1b), (1c), (1d)', maxStress: 280 },
+  { id: 'Flat metal, jacketed (4%-6% chrome)', m: 3.75, y: 9000, sketches: '(1a), (1b), (1c), (1d)', maxStress: 280 },
+  { id: 'Flat metal, jacketed (Stainless steel and Ni-base alloys)', m: 3.75, y: 9000, sketches: '(1a), (1b), (1c), (1d)', maxStress: 300 },
   { id: 'Grooved metal (Soft aluminum)', m: 3.25, y: 5500, sketches: '(1a), (1b), (1c), (1d)' },
   { id: 'Grooved metal (Soft copper or brass)', m: 3.50, y: 6500, sketches: '(1a), (1b), (1c), (1d)' },
   { id: 'Grooved metal (Iron or soft steel)', m: 3.75, y: 7600, sketches: '(1a), (1b), (1c), (1d)' },
   { id: 'Grooved metal (Monel or 4%-6% chrome)', m: 3.75, y: 9000, sketches: '(1a), (1b), (1c), (1d)' },
   { id: 'Grooved metal (Stainless steel and Ni-base alloys)', m: 4.25, y: 10100, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Solid flat metal (Soft aluminum)', m: 4.00, y: 8800, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Solid flat metal (Soft copper or brass)', m: 4.75, y: 13000, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Solid flat metal (Iron or soft steel)', m: 5.50, y: 18000, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Solid flat metal (Monel or 4%-6% chrome)', m: 6.00, y: 21800, sketches: '(1a), (1b), (1c), (1d)' },
-  { id: 'Solid flat metal (Stainless steel and Ni-base alloys)', m: 6.50, y: 26000, sketches: '(1a), (1b), (1c), (1d)' },
+  { id: 'Solid flat metal (Soft aluminum)', m: 4.00, y: 8800, sketches: '(1a), (1b), (1c), (1d)', maxStress: 140 },
+  { id: 'Solid flat metal (Soft copper or brass)', m: 4.75, y: 13000, sketches: '(1a), (1b), (1c), (1d)', maxStress: 200 },
+  { id: 'Solid flat metal (Iron or soft steel)', m: 5.50, y: 18000, sketches: '(1a), (1b), (1c), (1d)', maxStress: 300 },
+  { id: 'Solid flat metal (Monel or 4%-6% chrome)', m: 6.00, y: 21800, sketches: '(1a), (1b), (1c), (1d)', maxStress: 400 },
+  { id: 'Solid flat metal (Stainless steel and Ni-base alloys)', m: 6.50, y: 26000, sketches: '(1a), (1b), (1c), (1d)', maxStress: 450 },
   { id: 'Ring joint (Iron or soft steel)', m: 5.50, y: 18000, sketches: '(2)' },
   { id: 'Ring joint (Monel or 4%-6% chrome)', m: 6.00, y: 21800, sketches: '(2)' },
   { id: 'Ring joint (Stainless steel and Ni-base alloys)', m: 6.50, y: 26000, sketches: '(2)' },
 ];
 
 export const ASME_PLATE_MATERIALS: ShellMaterial[] = [
-  { id: "SA-516-55", minTensile: 380, minYield: 205, stresses: [108, 108, 108, 108, 108, 108, 108, 107, 104, 101, 97.8, 89.1, 75.4, 62.6, 45.5, 31.6, 21.9, 12.7] },
-  { id: "SA-516-60", minTensile: 415, minYield: 220, stresses: [118, 118, 118, 118, 118, 118, 118, 115, 112, 108, 104, 88.9, 75.3, 62.7, 45.5, 31.6, 21.9, 12.7] },
-  { id: "SA-516-65", minTensile: 450, minYield: 240, stresses: [128, 128, 128, 128, 128, 128, 128, 125, 122, 118, 114, 95, 79.6, 63.2, 45.3, 31.7, 21.9, 12.7] },
-  { id: "SA-516-70", minTensile: 485, minYield: 260, stresses: [138, 138, 138, 138, 138, 138, 138, 136, 132, 128, 123, 101, 83.8, 67.1, 51, 33.6, 21.3, 12.9] },
-  { id: "SA-387-12 CL.1", minTensile: 380, minYield: 230, stresses: [108, 108, 107, 106, 105, 104, 104, 104, 104, 104, 104, 104, 104, 104, 102, 88.8, 61.7, 40.3, 26.4, 17.3, 11.7, 7.4] },
-  { id: "SA-387-12 CL.2", minTensile: 450, minYield: 275, stresses: [128, 128, 128, 125, 124, 123, 123, 123, 123, 123, 123, 123, 123, 123, 123, 94.4, 60.2, 40.8, 26.3, 17.3, 11.7, 7.4] },
-  { id: "SA-387-11 CL.1", minTensile: 415, minYield: 240, stresses: [118, 118, 118, 118, 118, 118, 118, 118, 118, 118, 118, 118, 116, 114, 101, 72.9, 51.7, 36.5, 25.2, 17.6, 12.4, 8.08] },
-  { id: "SA-387-11 CL.2", minTensile: 515, minYield: 310, stresses: [148, 148, 148, 148, 148, 148, 148, 148, 148, 148, 148, 148, 143, 107, 89.4, 64.3, 44.9, 30.1, 19.7, 12.9, 8.08] },
-  { id: "SA-387-22 CL.1", minTensile: 415, minYield: 205, stresses: [118, 118, 118, 116, 114, 114, 114, 114, 114, 114, 114, 114, 114, 114, 110, 80.9, 64, 47.7, 34.5, 23.5, 15.5, 9.39] },
-  { id: "SA-387-22 CL.2", minTensile: 515, minYield: 310, stresses: [148, 148, 148, 147, 146, 144, 142, 141, 141, 140, 139, 138, 136, 133, 130, 116, 89.4, 64.3, 44.9, 30.1, 19.7, 12.9, 8.06] },
-  { id: "SA-387-21 CL.1", minTensile: 415, minYield: 205, stresses: [118, 118, 118, 116, 114, 114, 114, 114, 114, 114, 114, 114, 114, 114, 113, 90.5, 68.2, 54.1, 43.5, 34.4, 25.3, 17.4, 10] },
-  { id: "SA-387-21 CL.2", minTensile: 515, minYield: 310, stresses: [148, 148, 147, 146, 144, 142, 141, 141, 140, 139, 138, 136, 133, 127, 100, 72.8, 54.9, 40.7, 29.4, 20.4, 15.7, 8.64] },
-  { id: "SA-240-410S", minTensile: 415, minYield: 205, stresses: [118, 118, 118, 117, 116, 114, 113, 111, 109, 107, 104, 101, 97.5, 93, 88.3, 69.7, 50.7, 37.9, 26.4, 18, 11.6, 6.68] },
-  { id: "SA-240-410", minTensile: 450, minYield: 205, stresses: [128, 128, 126, 125, 123, 120, 119, 117, 115, 114, 111, 108, 104, 100, 89.9, 69.2, 50.9, 37.8, 26.4, 18, 11.6, 6.68] },
-  { id: "SA-240-304", minTensile: 515, minYield: 205, stresses: [138, 138, 126, 113, 107, 103, 95.7, 89.9, 85.9, 84.1, 82.2, 80.5, 79.2, 77.3, 76, 74.8, 73.6, 72.4, 70.8, 68.9, 65.4, 51.4, 41.7, 32.9, 26.5, 21.3, 17.2, 13.9, 11.1, 8.73] },
-  { id: "SA-533-A CL.1", minTensile: 550, minYield: 345, stresses: [158, 158, 158, 158, 158, 158, 158, 158, 158, 158, 158, 158, 158, 154, 106, 77.2, 55.6, 32.1] },
+  { id: "SA-516-55", minTensile: 380, minYield: 205, group: 'CS', stresses: [108, 108, 108, 108, 108, 108, 108, 107, 104, 101, 97.8, 89.1, 75.4, 62.6, 45.5, 31.6, 21.9, 12.7] },
+  { id: "SA-516-60", minTensile: 415, minYield: 220, group: 'CS', stresses: [118, 118, 118, 118, 118, 118, 118, 115, 112, 108, 104, 88.9, 75.3, 62.7, 45.5, 31.6, 21.9, 12.7] },
+  { id: "SA-516-65", minTensile: 450, minYield: 240, group: 'CS', stresses: [128, 128, 128, 128, 128, 128, 128, 125, 122, 118, 114, 95, 79.6, 63.2, 45.3, 31.7, 21.9, 12.7] },
+  { id: "SA-516-70", minTensile: 485, minYield: 260, group: 'CS', stresses: [138, 138, 138, 138, 138, 138, 138, 136, 132, 128, 123, 101, 83.8, 67.1, 51, 33.6, 21.3, 12.9] },
+  { id: "SA-387-12 CL.1", minTensile: 380, minYield: 230, group: 'CRMO', stresses: [108, 108, 107, 106, 105, 104, 104, 104, 104, 104, 104, 104, 104, 104, 102, 88.8, 61.7, 40.3, 26.4, 17.3, 11.7, 7.4] },
+  { id: "SA-387-12 CL.2", minTensile: 450, minYield: 275, group: 'CRMO', stresses: [128, 128, 128, 125, 124, 123, 123, 123, 123, 123, 123, 123, 123, 123, 123, 94.4, 60.2, 40.8, 26.3, 17.3, 11.7, 7.4] },
+  { id: "SA-387-11 CL.1", minTensile: 415, minYield: 240, group: 'CRMO', stresses: [118, 118, 118, 118, 118, 118, 118, 118, 118, 118, 118, 118, 116, 114, 101, 72.9, 51.7, 36.5, 25.2, 17.6, 12.4, 8.08] },
+  { id: "SA-387-11 CL.2", minTensile: 515, minYield: 310, group: 'CRMO', stresses: [148, 148, 148, 148, 148, 148, 148, 148, 148, 148, 148, 148, 143, 107, 89.4, 64.3, 44.9, 30.1, 19.7, 12.9, 8.08] },
+  { id: "SA-387-22 CL.1", minTensile: 415, minYield: 205, group: 'CRMO', stresses: [118, 118, 118, 116, 114, 114, 114, 114, 114, 114, 114, 114, 114, 114, 110, 80.9, 64, 47.7, 34.5, 23.5, 15.5, 9.39] },
+  { id: "SA-387-22 CL.2", minTensile: 515, minYield: 310, group: 'CRMO', stresses: [148, 148, 148, 147, 146, 144, 142, 141, 141, 140, 139, 138, 136, 133, 130, 116, 89.4, 64.3, 44.9, 30.1, 19.7, 12.9, 8.06] },
+  { id: "SA-387-21 CL.1", minTensile: 415, minYield: 205, group: 'CRMO', stresses: [118, 118, 118, 116, 114, 114, 114, 114, 114, 114, 114, 114, 114, 114, 113, 90.5, 68.2, 54.1, 43.5, 34.4, 25.3, 17.4, 10] },
+  { id: "SA-387-21 CL.2", minTensile: 515, minYield: 310, group: 'CRMO', stresses: [148, 148, 147, 146, 144, 142, 141, 141, 140, 139, 138, 136, 133, 127, 100, 72.8, 54.9, 40.7, 29.4, 20.4, 15.7, 8.64] },
+  { id: "SA-240-410S", minTensile: 415, minYield: 205, group: 'CR12', stresses: [118, 118, 118, 117, 116, 114, 113, 111, 109, 107, 104, 101, 97.5, 93, 88.3, 69.7, 50.7, 37.9, 26.4, 18, 11.6, 6.68] },
+  { id: "SA-240-410", minTensile: 450, minYield: 205, group: 'CR12', stresses: [128, 128, 126, 125, 123, 120, 119, 117, 115, 114, 111, 108, 104, 100, 89.9, 69.2, 50.9, 37.8, 26.4, 18, 11.6, 6.68] },
+  { id: "SA-240-304", minTensile: 515, minYield: 205, group: 'SS', stresses: [138, 138, 126, 113, 107, 103, 95.7, 89.9, 85.9, 84.1, 82.2, 80.5, 79.2, 77.3, 76, 74.8, 73.6, 72.4, 70.8, 68.9, 65.4, 51.4, 41.7, 32.9, 26.5, 21.3, 17.2, 13.9, 11.1, 8.73] },
+  { id: "SA-533-A CL.1", minTensile: 550, minYield: 345, group: 'CRMO', stresses: [158, 158, 158, 158, 158, 158, 158, 158, 158, 158, 158, 158, 158, 154, 106, 77.2, 55.6, 32.1] },
 ];
 
 export const ASME_SHELL_MATERIALS: ShellMaterial[] = [...ASME_PLATE_MATERIALS];
 
+// ASME Sec. II Part D Table TM-1 (Modulus of Elasticity, GPa)
+export const MODULUS_TEMP_STEPS = [25, 100, 150, 200, 250, 300, 350, 400, 450, 500, 550, 600];
+
+export const MODULUS_OF_ELASTICITY: Record<MaterialGroup, number[]> = {
+  CS: [202, 198, 195, 192, 189, 185, 179, 171, 162, 151, 137, 122],   // Carbon steels (C <= 0.30%)
+  CRMO: [204, 200, 197, 193, 190, 186, 183, 179, 174, 169, 164, 157], // Cr-Mo & Mn-Mo low alloys
+  CR12: [201, 195, 192, 189, 186, 182, 178, 173, 166, 157, 145, 131], // 12Cr martensitic / ferritic
+  SS: [195, 189, 186, 183, 179, 176, 172, 169, 165, 160, 156, 151],   // Austenitic stainless
+};
+
+// ASME II-D Table TE-1: mean coefficient of thermal expansion from 20 °C (1e-6 mm/mm/°C)
+export const THERMAL_EXPANSION: Record<MaterialGroup, number[]> = {
+  CS: [11.5, 11.9, 12.3, 12.7, 13.0, 13.3, 13.6, 13.9, 14.2, 14.4, 14.6, 14.8],
+  CRMO: [11.2, 11.7, 12.1, 12.5, 12.8, 13.1, 13.4, 13.7, 13.9, 14.2, 14.4, 14.6],
+  CR12: [10.2, 10.4, 10.6, 10.8, 11.0, 11.1, 11.3, 11.5, 11.6, 11.8, 11.9, 12.0],
+  SS: [15.3, 15.9, 16.3, 16.6, 16.9, 17.2, 17.4, 17.6, 17.8, 18.0, 18.2, 18.3],
+};
+
 export const ASME_BOLT_MATERIALS: BoltMaterial[] = [
-  { id: "SA-193 B16 (100 < t <= 175)", minTensile: 690, minYield: 585, stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 132, 119, 105, 87.7, 61.7, 34.3, 13.8] },
-  { id: "SA-193 B16 (64 < t <= 100)", minTensile: 760, minYield: 655, stresses: [152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 147, 133, 114, 90.4, 61.1, 34.5, 13.7] },
-  { id: "SA-193 B16 (<= 64)", minTensile: 860, minYield: 725, stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 164, 148, 122, 91.8, 60.8, 34.6, 13.7] },
-  { id: "SA-193 B7 (100 < t <= 175)", minTensile: 690, minYield: 550, stresses: [130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 125, 115, 93.7, 68.4, 43.8, 18.9] },
-  { id: "SA-193 B7 (64 < t <= 100)", minTensile: 760, minYield: 655, stresses: [159, 159, 159, 159, 159, 159, 159, 159, 159, 159, 159, 159, 158, 153, 139, 117, 93.0, 68.6, 43.7, 18.9] },
-  { id: "SA-193 B7 (<= 64)", minTensile: 860, minYield: 725, stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 162, 146, 118, 92.7, 68.8, 43.6, 18.9] },
-  { id: "SA-193 B7M (<= 64)", minTensile: 690, minYield: 550, stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 128, 115, 93.6, 68.4, 43.7, 18.9] },
-  { id: "SA-193 B8 2(32 < t <= 38)", minTensile: 515, minYield: 205, stresses: [130, 122, 114, 108, 103, 99.2, 95.7, 92.6, 89.9, 87.8, 86.5, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2] },
-  { id: "SA-193 B8 2(25 < t <= 32)", minTensile: 550, minYield: 240, stresses: [130, 121, 115, 114, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112] },
-  { id: "SA-193 B8 2(19 < t <= 25)", minTensile: 620, minYield: 310, stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138] },
-  { id: "SA-193 B8 2(<= 19)", minTensile: 690, minYield: 345, stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 169, 164] },
-  { id: "SA-193 B8M 2(32 < t <= 38)", minTensile: 515, minYield: 205, stresses: [130, 127, 121, 114, 107, 103, 99.2, 96.0, 92.9, 90.1, 87.8, 86.5, 86.2, 86.2, 86.2, 86.2] },
-  { id: "SA-193 B8M 2(25 < t <= 32)", minTensile: 550, minYield: 240, stresses: [130, 127, 121, 115, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112] },
-  { id: "SA-193 B8M 2(19 < t <= 25)", minTensile: 620, minYield: 310, stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138] },
-  { id: "SA-193 B8M 2(<= 19)", minTensile: 760, minYield: 415, stresses: [152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152] },
-  { id: "SA-193 B8M2 (64 < t <= 75)", minTensile: 585, minYield: 310, stresses: [130, 127, 121, 114, 107, 102, 99.1, 96.7, 95.4, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1] },
-  { id: "SA-193 B8M2 (50 < t <= 64)", minTensile: 620, minYield: 345, stresses: [130, 127, 121, 115, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112] },
-  { id: "SA-193 B8M2 (<= 50)", minTensile: 655, minYield: 380, stresses: [130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130] },
-  { id: "SA-193 B8T 2(32 < t <= 38)", minTensile: 515, minYield: 205, stresses: [130, 126, 122, 118, 114, 110, 106, 103, 99.8, 96.8, 94.2, 92.7, 91.1, 88.7, 87.5, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2] },
-  { id: "SA-193 B8T 2(25 < t <= 32)", minTensile: 550, minYield: 240, stresses: [130, 127, 122, 117, 114, 113, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112] },
-  { id: "SA-193 B8T 2(19 < t <= 25)", minTensile: 620, minYield: 310, stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138] },
-  { id: "SA-193 B8T 2(<= 19)", minTensile: 690, minYield: 345, stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172] },
-  { id: "SA-320 B8 2(32 < t <= 38)", minTensile: 515, minYield: 205, stresses: [130, 122, 114, 108, 103, 99.2, 95.7, 92.6, 89.9, 87.8, 86.5, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2] },
-  { id: "SA-320 B8 2(25 < t <= 32)", minTensile: 550, minYield: 240, stresses: [130, 121, 115, 114, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112] },
-  { id: "SA-320 B8 2(19 < t <= 25)", minTensile: 620, minYield: 310, stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138] },
-  { id: "SA-320 B8 2(<= 19)", minTensile: 690, minYield: 345, stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 169, 164] },
-  { id: "SA-320 B8M 1", minTensile: 515, minYield: 205, stresses: [130, 127, 121, 114, 107, 103, 99.2, 95.9] },
-  { id: "SA-320 L43 (<= 100)", minTensile: 860, minYield: 725, stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172] },
-  { id: "SA-320 L7 (<= 64)", minTensile: 860, minYield: 725, stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 162, 146, 118] },
-  { id: "SA-320 L7A (<= 64)", minTensile: 860, minYield: 725, stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172] },
-  { id: "SA-320 L7M (<= 64)", minTensile: 690, minYield: 550, stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 128, 115, 93.6, 68.4, 43.7, 18.9] },
-  { id: "SA-453 660 A", minTensile: 900, minYield: 585, stresses: [147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147] },
-  { id: "SA-453 660 B", minTensile: 900, minYield: 585, stresses: [147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147] },
-  { id: "SA-540 B23 3", minTensile: 825, minYield: 725, stresses: [200, 200, 200, 200, 200, 200, 200, 200, 200, 200, 200, 200, 200] },
-  { id: "SA-540 B23 2", minTensile: 860, minYield: 760, stresses: [214, 214, 214, 214, 214, 214, 214, 214, 214, 214, 214, 214, 214] },
-  { id: "SA-540 B23 1", minTensile: 930, minYield: 825, stresses: [228, 228, 228, 228, 228, 228, 228, 228, 228, 228, 228, 228, 228] },
+  { id: "SA-193 B16 (100 < t <= 175)", minTensile: 690, minYield: 585, group: 'CRMO', stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 132, 119, 105, 87.7, 61.7, 34.3, 13.8] },
+  { id: "SA-193 B16 (64 < t <= 100)", minTensile: 760, minYield: 655, group: 'CRMO', stresses: [152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 147, 133, 114, 90.4, 61.1, 34.5, 13.7] },
+  { id: "SA-193 B16 (<= 64)", minTensile: 860, minYield: 725, group: 'CRMO', stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 164, 148, 122, 91.8, 60.8, 34.6, 13.7] },
+  { id: "SA-193 B7 (100 < t <= 175)", minTensile: 690, minYield: 550, group: 'CRMO', stresses: [130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 125, 115, 93.7, 68.4, 43.8, 18.9] },
+  { id: "SA-193 B7 (64 < t <= 100)", minTensile: 760, minYield: 655, group: 'CRMO', stresses: [159, 159, 159, 159, 159, 159, 159, 159, 159, 159, 159, 159, 158, 153, 139, 117, 93.0, 68.6, 43.7, 18.9] },
+  { id: "SA-193 B7 (<= 64)", minTensile: 860, minYield: 725, group: 'CRMO', stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 162, 146, 118, 92.7, 68.8, 43.6, 18.9] },
+  { id: "SA-193 B7M (<= 64)", minTensile: 690, minYield: 550, group: 'CRMO', stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 128, 115, 93.6, 68.4, 43.7, 18.9] },
+  { id: "SA-193 B8 2(32 < t <= 38)", minTensile: 515, minYield: 205, group: 'SS', stresses: [130, 122, 114, 108, 103, 99.2, 95.7, 92.6, 89.9, 87.8, 86.5, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2] },
+  { id: "SA-193 B8 2(25 < t <= 32)", minTensile: 550, minYield: 240, group: 'SS', stresses: [130, 121, 115, 114, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112] },
+  { id: "SA-193 B8 2(19 < t <= 25)", minTensile: 620, minYield: 310, group: 'SS', stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138] },
+  { id: "SA-193 B8 2(<= 19)", minTensile: 690, minYield: 345, group: 'SS', stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 169, 164] },
+  { id: "SA-193 B8M 2(32 < t <= 38)", minTensile: 515, minYield: 205, group: 'SS', stresses: [130, 127, 121, 114, 107, 103, 99.2, 96.0, 92.9, 90.1, 87.8, 86.5, 86.2, 86.2, 86.2, 86.2] },
+  { id: "SA-193 B8M 2(25 < t <= 32)", minTensile: 550, minYield: 240, group: 'SS', stresses: [130, 127, 121, 115, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112] },
+  { id: "SA-193 B8M 2(19 < t <= 25)", minTensile: 620, minYield: 310, group: 'SS', stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138] },
+  { id: "SA-193 B8M 2(<= 19)", minTensile: 760, minYield: 415, group: 'SS', stresses: [152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152, 152] },
+  { id: "SA-193 B8M2 (64 < t <= 75)", minTensile: 585, minYield: 310, group: 'SS', stresses: [130, 127, 121, 114, 107, 102, 99.1, 96.7, 95.4, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1, 95.1] },
+  { id: "SA-193 B8M2 (50 < t <= 64)", minTensile: 620, minYield: 345, group: 'SS', stresses: [130, 127, 121, 115, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112] },
+  { id: "SA-193 B8M2 (<= 50)", minTensile: 655, minYield: 380, group: 'SS', stresses: [130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130, 130] },
+  { id: "SA-193 B8T 2(32 < t <= 38)", minTensile: 515, minYield: 205, group: 'SS', stresses: [130, 126, 122, 118, 114, 110, 106, 103, 99.8, 96.8, 94.2, 92.7, 91.1, 88.7, 87.5, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2] },
+  { id: "SA-193 B8T 2(25 < t <= 32)", minTensile: 550, minYield: 240, group: 'SS', stresses: [130, 127, 122, 117, 114, 113, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112] },
+  { id: "SA-193 B8T 2(19 < t <= 25)", minTensile: 620, minYield: 310, group: 'SS', stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138] },
+  { id: "SA-193 B8T 2(<= 19)", minTensile: 690, minYield: 345, group: 'SS', stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172] },
+  { id: "SA-320 B8 2(32 < t <= 38)", minTensile: 515, minYield: 205, group: 'SS', stresses: [130, 122, 114, 108, 103, 99.2, 95.7, 92.6, 89.9, 87.8, 86.5, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2, 86.2] },
+  { id: "SA-320 B8 2(25 < t <= 32)", minTensile: 550, minYield: 240, group: 'SS', stresses: [130, 121, 115, 114, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112, 112] },
+  { id: "SA-320 B8 2(19 < t <= 25)", minTensile: 620, minYield: 310, group: 'SS', stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138] },
+  { id: "SA-320 B8 2(<= 19)", minTensile: 690, minYield: 345, group: 'SS', stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 169, 164] },
+  { id: "SA-320 B8M 1", minTensile: 515, minYield: 205, group: 'SS', stresses: [130, 127, 121, 114, 107, 103, 99.2, 95.9] },
+  { id: "SA-320 L43 (<= 100)", minTensile: 860, minYield: 725, group: 'CRMO', stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172] },
+  { id: "SA-320 L7 (<= 64)", minTensile: 860, minYield: 725, group: 'CRMO', stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 162, 146, 118] },
+  { id: "SA-320 L7A (<= 64)", minTensile: 860, minYield: 725, group: 'CRMO', stresses: [172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172, 172] },
+  { id: "SA-320 L7M (<= 64)", minTensile: 690, minYield: 550, group: 'CRMO', stresses: [138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 138, 128, 115, 93.6, 68.4, 43.7, 18.9] },
+  { id: "SA-453 660 A", minTensile: 900, minYield: 585, group: 'SS', stresses: [147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147] },
+  { id: "SA-453 660 B", minTensile: 900, minYield: 585, group: 'SS', stresses: [147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147, 147] },
+  { id: "SA-540 B23 3", minTensile: 825, minYield: 725, group: 'CRMO', stresses: [200, 200, 200, 200, 200, 200, 200, 200, 200, 200, 200, 200, 200] },
+  { id: "SA-540 B23 2", minTensile: 860, minYield: 760, group: 'CRMO', stresses: [214, 214, 214, 214, 214, 214, 214, 214, 214, 214, 214, 214, 214] },
+  { id: "SA-540 B23 1", minTensile: 930, minYield: 825, group: 'CRMO', stresses: [228, 228, 228, 228, 228, 228, 228, 228, 228, 228, 228, 228, 228] },
 ];
 
 export const API660_PCC1_STRESS_TABLE = [
@@ -0,0 +1,297 @@
+import { ASME_SHELL_MATERIALS, MODULUS_OF_ELASTICITY, MODULUS_TEMP_STEPS } from '../constants';
+import { CalculationResults, FlangeAnalysisKind, FlangeDesignResults, FlangeInputs, FlangeStressCase, FlangeType, RigidityCase, RigidityResults } from '../types';
+import { toCelsius, toMpa, interpolateStress, interpolateCurve } from './engineeringUtils';
+
+// ASME Sec. VIII Div.1 Mandatory Appendix 2 - bolted flange design.
+// All values in mm, N and MPa.
+
+type BaseResults = Omit<CalculationResults, 'flangeDesign' | 'bolting' | 'thermal'>;
+
+interface HubFactors {
+  F: number;
+  V: number;
+  f: number;
+  FL: number;
+  VL: number;
+}
+
+// Limits of F and V as h / h0 -> 0 (Fig. 2-7.2 / 2-7.3)
+const F_NO_HUB = 0.908920;
+const V_NO_HUB = 0.550103;
+
+// Thickness search doubles from 100 mm up to this cap (mm)
+export const MAX_SEARCH_THICKNESS = 6400;
+
+// Table 2-7.1: equations behind Figs. 2-7.2 to 2-7.6. Loose flanges with a
+// negligible hub are analysed as rings, so F_L / V_L fall back to F / V there.
+export const calculateHubFactors = (g0: number, g1: number, h: number, h0: number): HubFactors => {
+  if (g0 <= 0 || h0 <= 0 || h / h0 < 0.01) {
+    return { F: F_NO_HUB, V: V_NO_HUB, f: 1, FL: F_NO_HUB, VL: V_NO_HUB };
+  }
+
+  const A = Math.max(g1 / g0 - 1, 0);
+  const C = 43.68 * Math.pow(h / h0, 4);
+  const C1 = 1 / 3 + A / 12;
+  const C2 = 5 / 42 + 17 * A / 336;
+  const C3 = 1 / 210 + A / 360;
+  const C4 = 11 / 360 + 59 * A / 5040 + (1 + 3 * A) / C;
+  const C5 = 1 / 90 + 5 * A / 1008 - Math.pow(1 + A, 3) / C;
+  const C6 = 1 / 120 + 17 * A / 5040 + 1 / C;
+  const C7 = 215 / 2772 + 51 * A / 1232 + (60 / 7 + 225 * A / 14 + 75 * A * A / 7 + 5 * Math.pow(A, 3) / 2) / C;
+  const C8 = 31 / 6930 + 128 * A / 45045 + (6 / 7 + 15 * A / 7 + 12 * A * A / 7 + 5 * Math.pow(A, 3) / 11) / C;
+  const C9 = 533 / 30240 + 653 * A / 73920 + (1 / 2 + 33 * A / 14 + 39 * A * A / 28 + 25 * Math.pow(A, 3) / 84) / C;
+  const C10 = 29 / 3780 + 3 * A / 704 - (1 / 2 + 33 * A / 14 + 81 * A * A / 28 + 13 * Math.pow(A, 3) / 12) / C;
+  const C11 = 31 / 6048 + 1763 * A / 665280 + (1 / 2 + 6 * A / 7 + 15 * A * A / 28 + 5 * Math.pow(A, 3) / 42) / C;
+  const C12 = 1 / 2925 + 71 * A / 300300 + (8 / 35 + 18 * A / 35 + 156 * A * A / 385 + 6 * Math.pow(A, 3) / 55) / C;
+  const C13 = 761 / 831600 + 937 * A / 1663200 + (1 / 35 + 6 * A / 35 + 11 * A * A / 70 + 3 * Math.pow(A, 3) / 70) / C;
+  const C14 = 197 / 415800 + 103 * A / 332640 - (1 / 35 + 6 * A / 35 + 17 * A * A / 70 + Math.pow(A, 3) / 10) / C;
+  const C15 = 233 / 831600 + 97 * A / 554400 + (1 / 35 + 3 * A / 35 + A * A / 14 + 2 * Math.pow(A, 3) / 105) / C;
+  const C16 = C1 * C7 * C12 + C2 * C8 * C3 + C3 * C8 * C2 - (C3 * C3 * C7 + C8 * C8 * C1 + C2 * C2 * C12);
+  const C17 = (C4 * C7 * C12 + C2 * C8 * C13 + C3 * C8 * C9 - (C13 * C7 * C3 + C8 * C8 * C4 + C12 * C2 * C9)) / C16;
+  const C18 = (C5 * C7 * C12 + C2 * C8 * C14 + C3 * C8 * C10 - (C14 * C7 * C3 + C8 * C8 * C5 + C12 * C2 * C10)) / C16;
+  const C19 = (C6 * C7 * C12 + C2 * C8 * C15 + C3 * C8 * C11 - (C15 * C7 * C3 + C8 * C8 * C6 + C12 * C2 * C11)) / C16;
+  const C20 = (C1 * C9 * C12 + C4 * C8 * C3 + C3 * C13 * C2 - (C3 * C3 * C9 + C13 * C8 * C1 + C12 * C4 * C2)) / C16;
+  const C21 = (C1 * C10 * C12 + C5 * C8 * C3 + C3 * C14 * C2 - (C3 * C3 * C10 + C14 * C8 * C1 + C12 * C5 * C2)) / C16;
+  const C22 = (C1 * C11 * C12 + C6 * C8 * C3 + C3 * C15 * C2 - (C3 * C3 * C11 + C15 * C8 * C1 + C12 * C6 * C2)) / C16;
+  const C23 = (C1 * C7 * C13 + C2 * C9 * C3 + C4 * C8 * C2 - (C3 * C7 * C4 + C8 * C9 * C1 + C2 * C2 * C13)) / C16;
+  const C24 = (C1 * C7 * C14 + C2 * C10 * C3 + C5 * C8 * C2 - (C3 * C7 * C5 + C8 * C10 * C1 + C2 * C2 * C14)) / C16;
+  const C25 = (C1 * C7 * C15 + C2 * C11 * C3 + C6 * C8 * C2 - (C3 * C7 * C6 + C8 * C11 * C1 + C2 * C2 * C15)) / C16;
+  const C26 = -Math.pow(C / 4, 1 / 4);
+  const C27 = C20 - C17 - 5 / 12 + C17 * C26;
+  const C28 = C22 - C19 - 1 / 12 + C19 * C26;
+  const C29 = -Math.pow(C / 4, 1 / 2);
+  const C30 = -Math.pow(C / 4, 3 / 4);
+  const C31 = 3 * A / 2 - C17 * C30;
+  const C32 = 1 / 2 - C19 * C30;
+  const C33 = 0.5 * C26 * C32 + C28 * C31 * C29 - (0.5 * C30 * C28 + C32 * C27 * C29);
+  const C34 = 1 / 12 + C18 - C21 - C18 * C26;
+  const C35 = -C18 * Math.pow(C / 4, 3 / 4);
+  const C36 = (C28 * C35 * C29 - C32 * C34 * C29) / C33;
+  const C37 = (0.5 * C26 * C35 + C34 * C31 * C29 - (0.5 * C30 * C34 + C35 * C27 * C29)) / C33;
+  const E1 = C17 * C36 + C18 + C19 * C37;
+  const E2 = C20 * C36 + C21 + C22 * C37;
+  const E3 = C23 * C36 + C24 + C25 * C37;
+  const E4 = 1 / 4 + C37 / 12 + C36 / 4 - E3 / 5 - 3 * E2 / 2 - E1;
+  const E5 = E1 * (1 / 2 + A / 6) + E2 * (1 / 4 + 11 * A / 84) + E3 * (1 / 70 + A / 105);
+  const E6 = E5 - C36 * (7 / 120 + A / 36 + 3 * A / C) - 1 / 40 - A / 72 - C37 * (1 / 60 + A / 120 + 1 / C);
+
+  const F = -E6 / (Math.pow(C / 2.73, 1 / 4) * Math.pow(1 + A, 3) / C);
+  const V = E4 / (Math.pow(2.73 / C, 1 / 4) * Math.pow(1 + A, 3));
+  const f = Math.max(C36 / (1 + A), 1);
+
+  const FL = -(C18 * (1 / 2 + A / 6) + C21 * (1 / 4 + 11 * A / 84) + C24 * (1 / 70 + A / 105) - (1 / 40 + A / 72)) / (Math.pow(C / 2.73, 1 / 4) * Math.pow(1 + A, 3) / C);
+  const VL = (1 / 4 - C24 / 5 - 3 * C21 / 2 - C18) / (Math.pow(2.73 / C, 1 / 4) * Math.pow(1 + A, 3));
+
+  return { F, V, f, FL, VL };
+};
+
+// Fig. 2-7.1: Y, T, U, Z as functions of K = A / B
+export const calculateShapeFactors = (K: number) => {
+  const log10K = Math.log10(K);
+  const K2 = K * K;
+  const Y = (1 / (K - 1)) * (0.66845 + 5.71690 * (K2 * log10K) / (K2 - 1));
+  const T = (K2 * (1 + 8.55246 * log10K) - 1) / ((1.04720 + 1.9448 * K2) * (K - 1));
+  const U = (K2 * (1 + 8.55246 * log10K) - 1) / (1.36136 * (K2 - 1) * (K - 1));
+  const Z = (K2 + 1) / (K2 - 1);
+  return { Y, T, U, Z };
+};
+
+// Which Appendix 2 analysis applies to each flange type
+export const getFlangeAnalysisKind = (flangeType: FlangeType, hasHub: boolean): FlangeAnalysisKind => {
+  switch (flangeType) {
+    case 'loose': return hasHub ? 'looseHub' : 'looseRing';
+    case 'lapJoint':
+    case 'ring': return 'looseRing';
+    default: return 'integral';
+  }
+};
+
+export const flangeTypeHasHub = (flangeType: FlangeType): boolean =>
+  flangeType !== 'ring' && flangeType !== 'lapJoint';
+
+interface RigidityParams {
+  operatingMoment: number;
+  seatingMoment: number;
+  designModulus: number; // E_y at design temp (MPa)
+  ambientModulus: number; // E_y at ambient (MPa)
+  factorV: number; // V (integral) or V_L (loose)
+  L: number;
+  g0: number;
+  h0: number;
+  t: number;
+  K: number;
+}
+
+// 2-14: J = 52.14 V M0 / (L E g0² K_I h0) for integral flanges,
+// J = 52.14 V_L M0 / (L E g0² K_L h0) for loose flanges with hubs,
+// J = 109.4 M0 / (E t³ K_L ln K) for loose flanges without hubs
+export const calculateRigidity = (flangeKind: FlangeAnalysisKind, params: RigidityParams): RigidityResults => {
+  const kFactor = flangeKind === 'integral' ? 0.3 : 0.2;
+
+  const evaluateJ = (moment: number, modulus: number): RigidityCase => {
+    const j = flangeKind === 'looseRing'
+      ? (109.4 * moment) / (modulus * Math.pow(params.t, 3) * kFactor * Math.log(params.K))
+      : (52.14 * params.factorV * moment) / (params.L * modulus * Math.pow(params.g0, 2) * kFactor * params.h0);
+    return { moment, modulus, j, ok: j <= 1.0 };
+  };
+
+  const operating = evaluateJ(params.operatingMoment, params.designModulus);
+  const seating = evaluateJ(params.seatingMoment, params.ambientModulus);
+
+  return { flangeKind, kFactor, operating, seating, ok: operating.ok && seating.ok };
+};
+
+export const calculateFlangeDesign = (inputs: FlangeInputs, results: BaseResults): FlangeDesignResults => {
+  const flangeType = inputs.flangeType || 'integral';
+  const isReverse = flangeType === 'reverse';
+  const corr = inputs.corrosionAllowance || 0;
+  const bCorroded = inputs.insideDia + (2 * corr);
+  const g0Corroded = Math.max(inputs.g0 - corr, 0);
+  const g1Corroded = Math.max(results.hubGeometry.g1 - corr, g0Corroded);
+  const hubLength = results.hubGeometry.hubLength;
+  const h0 = Math.sqrt(bCorroded * g0Corroded);
+  const analysisKind = getFlangeAnalysisKind(flangeType, hubLength / (h0 || 1) >= 0.01);
+
+  const pMpa = toMpa(inputs.designPressure, inputs.pressureUnit);
+  const C = results.finalBCD;
+  const G = results.gMeanDia;
+
+  // 2-3: Forces
+  const hdForce = (Math.PI / 4) * Math.pow(bCorroded, 2) * pMpa;
+  const htForce = results.hForce - hdForce;
+  const hgForce = results.wm1 - results.hForce;
+
+  // Table 2-6 / 2-13: Lever arms
+  const R = ((C - bCorroded) / 2) - g1Corroded;
+  const lapContactDia = inputs.lapContactDia || (results.gasketOD + bCorroded + (2 * g0Corroded)) / 2;
+  const hgArm = flangeType === 'lapJoint' ? (C - lapContactDia) / 2 : (C - G) / 2;
+  let hdArm: number;
+  let htArm: number;
+  if (isReverse) {
+    hdArm = (C + g1Corroded - (2 * g0Corroded) - bCorroded) / 2;
+    htArm = (C - ((bCorroded + G) / 2)) / 2;
+  } else if (analysisKind === 'integral') {
+    hdArm = R + (0.5 * g1Corroded);
+    htArm = (R + g1Corroded + hgArm) / 2;
+  } else {
+    hdArm = (C - bCorroded) / 2;
+    htArm = flangeType === 'lapJoint' ? (C - lapContactDia) / 2 : (hdArm + hgArm) / 2;
+  }
+
+  // 2-6: Moments (reverse flange arms may be negative)
+  const mdMoment = hdForce * hdArm;
+  const mtMoment = htForce * htArm;
+  const mgMoment = hgForce * hgArm;
+  const operatingMoment = Math.abs(mdMoment + mtMoment + mgMoment);
+  const seatingBoltLoad = results.designBoltLoad;
+  const seatingMoment = Math.abs(seatingBoltLoad * hgArm);
+
+  // Factors (2-13: reverse flanges use K = A / B' and modified T, U, Y)
+  const reverseBoreDia = inputs.reverseBoreDia || results.gasketID;
+  const kRatio = isReverse ? results.finalOD / reverseBoreDia : results.finalOD / bCorroded;
+  const shape = calculateShapeFactors(kRatio);
+  const { Y, Z } = shape;
+  const alphaR = isReverse ? (1 / Math.pow(kRatio, 2)) * (1 + (0.668 * (kRatio + 1)) / Y) : 1;
+  const T = isReverse ? ((Z + 0.3) / (Z - 0.3)) * alphaR * shape.T : shape.T;
+  const U = alphaR * shape.U;
+  const yStress = alphaR * Y;
+
+  const hub = calculateHubFactors(g0Corroded, g1Corroded, hubLength, h0);
+  const F = analysisKind === 'looseHub' ? hub.FL : hub.F;
+  const V = analysisKind === 'looseHub' ? hub.VL : hub.V;
+  const f = analysisKind === 'integral' ? hub.f : 1;
+  const factorE = F / h0;
+  const factorD = (U / V) * h0 * Math.pow(g0Corroded, 2);
+
+  const shellMat = ASME_SHELL_MATERIALS.find(m => m.id === inputs.shellMaterial) || ASME_SHELL_MATERIALS[0];
+  const designTempC = toCelsius(inputs.designTemp, inputs.tempUnit);
+  const shellAmbientAllowable = shellMat.stresses[1] || 0;
+  // Past the end of the material curve there is no allowable (0)
+  const shellDesignAllowable = interpolateStress(designTempC, shellMat.stresses) || 0;
+  const hasAllowable = shellAmbientAllowable > 0 && shellDesignAllowable > 0;
+
+  const calculateL = (t: number) => ((t * factorE) + 1) / T + Math.pow(t, 3) / factorD;
+
+  // 2-7 / 2-13: Flange stresses for a given thickness t
+  const evaluateCase = (t: number, moment: number, allowable: number): FlangeStressCase => {
+    let sh = 0;
+    let sr = 0;
+    let st: number;
+    let stInner: number | undefined;
+
+    if (analysisKind === 'looseRing') {
+      st = (Y * moment) / (Math.pow(t, 2) * bCorroded);
+    } else {
+      const L = calculateL(t);
+      sh = (f * moment) / (L * Math.pow(g1Corroded, 2) * bCorroded);
+      sr = (((1.33 * t * factorE) + 1) * moment) / (L * Math.pow(t, 2) * bCorroded);
+      if (isReverse) {
+        st = ((yStress * moment) / (Math.pow(t, 2) * bCorroded)) - (Z * sr * ((0.67 * t * factorE) + 1) / ((1.33 * t * factorE) + 1));
+        stInner = (moment / (Math.pow(t, 2) * bCorroded)) * (Y - ((2 * Math.pow(kRatio, 2) * (1 + (2 * t * factorE / 3))) / ((Math.pow(kRatio, 2) - 1) * L)));
+      } else {
+        st = ((Y * moment) / (Math.pow(t, 2) * bCorroded)) - (Z * sr);
+      }
+    }
+
+    const shLimit = 1.5 * allowable;
+    const combinedHR = (sh + sr) / 2;
+    const combinedHT = (sh + st) / 2;
+
+    const shOk = sh <= shLimit;
+    const srOk = sr <= allowable;
+    const stOk = st <= allowable && (stInner === undefined || stInner <= allowable);
+    const combinedOk = combinedHR <= allowable && combinedHT <= allowable;
+
+    return {
+      moment, allowable, sh, sr, st, stInner, shLimit, combinedHR, combinedHT,
+      shOk, srOk, stOk, combinedOk,
+      ok: shOk && srOk && stOk && combinedOk
+    };
+  };
+
+  const passesAt = (t: number) =>
+    evaluateCase(t, operatingMoment, shellDesignAllowable).ok &&
+    evaluateCase(t, seatingMoment, shellAmbientAllowable).ok;
+
+  // 2-7: Solve for the minimum thickness by bisection. Without an allowable, or when
+  // nothing up to the search cap passes, there is no solution and no thickness is assumed.
+  let lo = 0;
+  let hi = 100;
+  while (hasAllowable && !passesAt(hi) && hi < MAX_SEARCH_THICKNESS) hi *= 2;
+  const solved = hasAllowable && passesAt(hi);
+  if (solved) {
+    for (let i = 0; i < 60; i++) {
+      const mid = (lo + hi) / 2;
+      if (passesAt(mid)) hi = mid;
+      else lo = mid;
+    }
+  }
+  const minThickness = solved ? Math.ceil(hi * 10) / 10 : 0;
+  const thickness = inputs.flangeThickness || Math.ceil(minThickness);
+
+  const operating = evaluateCase(thickness, operatingMoment, shellDesignAllowable);
+  const seating = evaluateCase(thickness, seatingMoment, shellAmbientAllowable);
+
+  // 2-14: Flange rigidity
+  const modulusCurve = MODULUS_OF_ELASTICITY[shellMat.group].map(e => e * 1000);
+  const rigidity = calculateRigidity(analysisKind, {
+    operatingMoment, seatingMoment,
+    designModulus: interpolateCurve(designTempC, MODULUS_TEMP_STEPS, modulusCurve),
+    ambientModulus: modulusCurve[0],
+    factorV: V, L: calculateL(thickness),
+    g0: g0Corroded, h0, t: thickness, K: kRatio
+  });
+
+  return {
+    flangeType, analysisKind,
+    bCorroded, g0Corroded, g1Corroded, hubLength, h0, lapContactDia, reverseBoreDia,
+    hdForce, htForce, hgForce, hdArm, htArm, hgArm,
+    mdMoment, mtMoment, mgMoment, operatingMoment, seatingBoltLoad, seatingMoment,
+    kRatio, factorF: F, factorV: V, factorSmallF: f, factorE, factorD,
+    factorY: yStress, factorT: T, factorU: U, factorZ: Z,
+    shellAmbientAllowable, shellDesignAllowable,
+    solved, minThickness, thickness,
+    operating, seating, rigidity,
+    ok: thickness > 0 && operating.ok && seating.ok
+  };
+};
@@ -0,0 +1,49 @@
+import { FlangeInputs } from '../types';
+
+// Bolt hole layout and the optimizer's bolt count rules. Holes straddle the
+// natural centerlines: bolt 1 is the first hole clockwise from the top, half a
+// pitch off the vertical centerline. Pass partition lanes run horizontally.
+
+// Angle of bolt `index` (0-based) clockwise from the top, in radians
+export const boltAngle = (index: number, boltCount: number): number => ((index + 0.5) * 2 * Math.PI) / boltCount;
+
+// Lane centerline offsets from the horizontal centerline (mm, up positive)
+export const getPassLaneOffsets = (inputs: FlangeInputs): number[] => {
+  const count = Math.max(Math.floor(inputs.passLaneCount || 0), 0);
+  return Array.from({ length: count }, (_, k) => (k - (count - 1) / 2) * (inputs.passLanePitch || 0));
+};
+
+// Bolt numbers whose hole crosses a lane centerline
+export const findPassLaneBolts = (boltCount: number, bcd: number, holeSize: number, laneOffsets: number[]): number[] => {
+  if (laneOffsets.length === 0) return [];
+  const radius = bcd / 2;
+  const bolts: number[] = [];
+  for (let i = 0; i < boltCount; i++) {
+    const y = radius * Math.cos(boltAngle(i, boltCount));
+    if (laneOffsets.some(offset => Math.abs(y - offset) < holeSize / 2)) bolts.push(i + 1);
+  }
+  return bolts;
+};
+
+export const parsePreferredCounts = (value: string): number[] => (
+  (value || '')
+    .split(/[\s,;]+/)
+    .map(part => parseInt(part, 10))
+    .filter(count => count > 0)
+);
+
+// Counts to search: the preferred list when given, otherwise every multiple in range
+export const getCandidateBoltCounts = (inputs: FlangeInputs): number[] => {
+  const multiple = inputs.boltCountMultiple || 4;
+  const minCount = Math.max(inputs.minBoltCount || multiple, 1);
+  const maxCount = inputs.maxBoltCount || 80;
+  const preferred = parsePreferredCounts(inputs.preferredBoltCounts);
+
+  const counts = preferred.length > 0
+    ? preferred
+    : Array.from({ length: Math.floor(maxCount / multiple) }, (_, k) => (k + 1) * multiple);
+
+  return Array.from(new Set(counts))
+    .filter(count => count >= minCount && count <= maxCount)
+    .sort((a, b) => a - b);
+};
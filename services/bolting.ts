@@ -0,0 +1,72 @@
+import { STEEL_DENSITY } from '../constants';
+import { BoltingBomLine, FlangeInputs, StudBoltingResults } from '../types';
+
+// Stud bolt length for the flange stack: both nuts, washers under each nut and the
+// thread projection beyond each nut, rounded up to the procurement increment.
+// One heavy-hex nut per end; washers are counted only when a thickness is given.
+
+// A flange thickness of 0 (no App. 2 solution) leaves the lengths and weights at 0
+export const calculateStudBolting = (inputs: FlangeInputs, flangeThickness: number): StudBoltingResults => {
+  const sized = flangeThickness > 0;
+  const nominalDia = inputs.boltSize * 25.4;
+  const matingThickness = inputs.matingFlangeThickness || flangeThickness;
+  const tubesheetThickness = inputs.tubesheetThickness || 0;
+  const gasketCount = tubesheetThickness > 0 ? 2 : 1;
+  const gasketThickness = inputs.gasketThickness || 0;
+  const stackThickness = sized ? flangeThickness + matingThickness + tubesheetThickness + (gasketCount * gasketThickness) : 0;
+
+  const washerThickness = inputs.washerThickness || 0;
+  const gripLength = sized ? stackThickness + (2 * washerThickness) : 0;
+  const nutHeight = inputs.nutHeight || nominalDia;
+  const threadProjection = inputs.threadProjection || 0;
+  const calculatedLength = sized ? gripLength + (2 * nutHeight) + (2 * threadProjection) : 0;
+
+  const increment = inputs.studLengthIncrement > 0 ? inputs.studLengthIncrement : 1;
+  const studLength = sized ? Math.ceil(calculatedLength / increment - 1e-9) * increment : 0;
+
+  // Heavy hex nut: across flats 1.5d + 3.2 mm, less the threaded hole
+  const acrossFlats = 1.5 * nominalDia + 3.2;
+  const studWeight = (Math.PI / 4) * Math.pow(nominalDia, 2) * studLength * STEEL_DENSITY;
+  const nutWeight = sized ? ((Math.sqrt(3) / 2) * Math.pow(acrossFlats, 2) - (Math.PI / 4) * Math.pow(nominalDia, 2)) * nutHeight * STEEL_DENSITY : 0;
+
+  const studCount = inputs.boltCount;
+  return {
+    sized,
+    flangeThickness, matingThickness, tubesheetThickness, gasketCount, gasketThickness,
+    stackThickness, gripLength, nutHeight, washerThickness, threadProjection,
+    calculatedLength, increment, studLength,
+    studCount,
+    nutCount: studCount * 2,
+    washerCount: washerThickness > 0 ? studCount * 2 : 0,
+    studWeight, nutWeight,
+    totalWeight: studCount * (studWeight + 2 * nutWeight)
+  };
+};
+
+export const createBomLine = (inputs: FlangeInputs, bolting: StudBoltingResults): BoltingBomLine => ({
+  boltSize: inputs.boltSize,
+  boltMaterial: inputs.boltMaterial,
+  studLength: bolting.studLength,
+  studCount: bolting.studCount,
+  nutCount: bolting.nutCount,
+  washerCount: bolting.washerCount
+});
+
+// Sums identical studs (size, material and length) across the project list
+export const consolidateBom = (lines: BoltingBomLine[]): BoltingBomLine[] => {
+  const merged = new Map<string, BoltingBomLine>();
+  lines.forEach(line => {
+    const key = `${line.boltSize}|${line.boltMaterial}|${line.studLength}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.studCount += line.studCount;
+      existing.nutCount += line.nutCount;
+      existing.washerCount += line.washerCount;
+    } else {
+      merged.set(key, { ...line });
+    }
+  });
+  return Array.from(merged.values()).sort((a, b) =>
+    a.boltSize - b.boltSize || a.boltMaterial.localeCompare(b.boltMaterial) || a.studLength - b.studLength
+  );
+};
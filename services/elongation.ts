@@ -0,0 +1,32 @@
+import { CalculationResults, ElongationResults, FlangeInputs, Pcc1Results } from '../types';
+import { resolveTargetBoltStress } from './torque';
+
+// Target bolt elongation for ultrasonic or micrometer control: ΔL = σ L_eff / E.
+// The effective length is the grip plus half a nominal diameter of engagement in
+// each nut, with the bolt modulus at the ambient assembly temperature.
+
+const NUT_ENGAGEMENT_FACTOR = 0.5; // × d per nut
+
+export const calculateElongation = (inputs: FlangeInputs, results: CalculationResults, pcc1: Pcc1Results): ElongationResults => {
+  const resolved = resolveTargetBoltStress(inputs, results, pcc1);
+  const stressBasis = inputs.elongationTargetStress > 0 ? 'user' as const : resolved.stressBasis;
+  const targetStress = inputs.elongationTargetStress > 0 ? inputs.elongationTargetStress : resolved.targetStress;
+
+  const tensileArea = results.singleBoltArea;
+  const preload = targetStress * tensileArea;
+  const modulus = results.thermal.boltModulusAmbient;
+
+  const gripLength = results.bolting.gripLength;
+  const nutAllowance = NUT_ENGAGEMENT_FACTOR * inputs.boltSize * 25.4;
+  const effectiveLength = gripLength + (2 * nutAllowance);
+
+  const elongation = modulus > 0 ? (preload * effectiveLength) / (modulus * tensileArea) : 0;
+  const tolerance = inputs.elongationTolerance || 0;
+
+  return {
+    stressBasis, targetStress, tensileArea, preload, modulus,
+    gripLength, nutAllowance, effectiveLength, elongation, tolerance,
+    minElongation: elongation * (1 - tolerance / 100),
+    maxElongation: elongation * (1 + tolerance / 100)
+  };
+};
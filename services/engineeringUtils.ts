@@ -0,0 +1,52 @@
+import { BOLT_TEMP_STEPS } from '../constants';
+
+export const PSI_TO_MPA = 0.00689476;
+
+export const toMpa = (p: number, unit: string): number => {
+  switch (unit) {
+    case 'Bar': return p * 0.1;
+    case 'PSI': return p * PSI_TO_MPA;
+    case 'kg/cm²': return p * 0.0980665;
+    default: return p;
+  }
+};
+
+export const toCelsius = (t: number, unit: string): number => {
+  switch (unit) {
+    case '°F': return (t - 32) * 5 / 9;
+    case 'K': return t - 273.15;
+    default: return t;
+  }
+};
+
+export const interpolateStress = (temp: number, stressCurve: (number | null)[]): number => {
+  const cleanCurve = stressCurve.map(s => s || 0);
+  if (temp <= BOLT_TEMP_STEPS[0]) return cleanCurve[0];
+  if (temp >= BOLT_TEMP_STEPS[BOLT_TEMP_STEPS.length - 1]) return cleanCurve[cleanCurve.length - 1];
+
+  for (let i = 0; i < BOLT_TEMP_STEPS.length - 1; i++) {
+    const t1 = BOLT_TEMP_STEPS[i];
+    const t2 = BOLT_TEMP_STEPS[i + 1];
+    if (temp >= t1 && temp <= t2) {
+      const s1 = cleanCurve[i];
+      const s2 = cleanCurve[i + 1] || s1;
+      return s1 + ((s2 - s1) * (temp - t1)) / (t2 - t1);
+    }
+  }
+  return cleanCurve[0];
+};
+
+// Linear interpolation on an arbitrary temperature curve, clamped at both ends
+export const interpolateCurve = (temp: number, steps: number[], values: number[]): number => {
+  if (temp <= steps[0]) return values[0];
+  if (temp >= steps[steps.length - 1]) return values[values.length - 1];
+
+  for (let i = 0; i < steps.length - 1; i++) {
+    const t1 = steps[i];
+    const t2 = steps[i + 1];
+    if (temp >= t1 && temp <= t2) {
+      return values[i] + ((values[i + 1] - values[i]) * (temp - t1)) / (t2 - t1);
+    }
+  }
+  return values[0];
+};
@@ -0,0 +1,402 @@
+import { TEMA_BOLT_DATA, GASKET_RING_TABLE, ASME_BOLT_MATERIALS, GASKET_TYPES, WHC_MAX_PITCH_TABLE, HYDRAULIC_TENSIONING_DATA, ASME_SHELL_MATERIALS } from '../constants';
+import { CalculationResults, FlangeEvaluation, FlangeInputs, HubGeometry, JointSide, JointSideLoads, JointSides, Pcc1Results } from '../types';
+import { PSI_TO_MPA, toMpa, toCelsius, interpolateStress } from './engineeringUtils';
+import { calculateFlangeDesign, flangeTypeHasHub } from './appendix2';
+import { calculateThermalBoltLoad } from './thermal';
+import { calculateStudBolting } from './bolting';
+import { findPassLaneBolts, getPassLaneOffsets } from './boltLayout';
+import { calculateBoltTorque } from './torque';
+import { calculateTensioning } from './tensioning';
+import { calculateElongation } from './elongation';
+
+// Framework-free calculation engine. Every component, the optimizer and any
+// batch tool should go through these functions so the numbers never disagree.
+
+// Inputs that change the required shell thickness, so g0 (and g1) are recalculated
+export const G0_TRIGGER_FIELDS = ['designTemp', 'tempUnit', 'designPressure', 'pressureUnit', 'shellMaterial', 'jointEfficiency', 'insideDia', 'corrosionAllowance'];
+
+export const calculateAutoG0 = (currentInputs: Partial<FlangeInputs>): number => {
+  const shellMatId = currentInputs.shellMaterial || ASME_SHELL_MATERIALS[0].id;
+  const shellMat = ASME_SHELL_MATERIALS.find(m => m.id === shellMatId) || ASME_SHELL_MATERIALS[0];
+  const temp = currentInputs.designTemp ?? 100;
+  const tempU = currentInputs.tempUnit || '°C';
+  const press = currentInputs.designPressure ?? 1.0;
+  const pressU = currentInputs.pressureUnit || 'MPa';
+  const id = currentInputs.insideDia ?? 300;
+  const corr = currentInputs.corrosionAllowance ?? 0;
+  const jointEff = currentInputs.jointEfficiency ?? 1.0;
+
+  const shellStress = interpolateStress(toCelsius(temp, tempU), shellMat.stresses);
+  const pMpa = toMpa(press, pressU);
+
+  const denom = (shellStress * jointEff - 0.6 * pMpa);
+  const autoG0 = (pMpa * (id + 2 * corr) / 2) / (denom > 0 ? denom : 1) + corr;
+  return Math.ceil(autoG0);
+};
+
+// roundup(g0 * 1.3 / 3 + g0)
+export const calculateAutoG1 = (g0: number): number => Math.ceil(g0 * 1.3 / 3 + g0);
+
+// g1 from the selected minimum-g1 rule unless locked; hub length follows the taper when not given
+export const resolveHubGeometry = (currentInputs: FlangeInputs): HubGeometry => {
+  const g0 = currentInputs.g0;
+  const taper = currentInputs.hubTaper || 3;
+
+  if (!flangeTypeHasHub(currentInputs.flangeType || 'integral')) {
+    return { g1: g0, hubLength: 0, taper, source: 'noHub', warning: null };
+  }
+
+  let g1: number;
+  let source: HubGeometry['source'];
+  let warning: string | null = null;
+  if (currentInputs.lockG1) {
+    g1 = Math.max(currentInputs.g1, g0);
+    source = 'locked';
+  } else if (currentInputs.g1Rule === 'taper' && currentInputs.hubLength > 0) {
+    g1 = Math.ceil(g0 + currentInputs.hubLength / taper);
+    source = 'taper';
+  } else if (currentInputs.g1Rule === 'ratio') {
+    g1 = Math.ceil(g0 * Math.max(currentInputs.g1MinRatio || 1.5, 1));
+    source = 'ratio';
+  } else {
+    // The taper rule needs h; without it g1 cannot come from the taper
+    if (currentInputs.g1Rule === 'taper') {
+      warning = 'Taper rule needs a hub length h; g1 uses g0 + 1.3·g0 / 3 until h is entered';
+    }
+    g1 = calculateAutoG1(g0);
+    source = 'legacy';
+  }
+
+  return { g1, hubLength: currentInputs.hubLength || taper * (g1 - g0), taper, source, warning };
+};
+
+// External axial force and bending moment as an added end force on the gasket circle G.
+// Compressive axial force is ignored.
+export const calculateExternalLoad = (currentInputs: FlangeInputs, gMeanDia: number) => {
+  const axialForce = Math.max(currentInputs.externalAxialForce || 0, 0) * 1000;
+  const moment = Math.abs(currentInputs.externalMoment || 0) * 1e6;
+  if (gMeanDia <= 0 || (axialForce === 0 && moment === 0)) {
+    return { equivalentPressure: 0, endForce: 0 };
+  }
+
+  if (currentInputs.externalLoadMethod === 'div2') {
+    // F_A + 4 M_E / G
+    return { equivalentPressure: 0, endForce: axialForce + (4 * moment / gMeanDia) };
+  }
+
+  // Kellogg: P_eq = 16 M / (π G³) + 4 F / (π G²)
+  const equivalentPressure = ((16 * moment) / (Math.PI * Math.pow(gMeanDia, 3))) + ((4 * axialForce) / (Math.PI * Math.pow(gMeanDia, 2)));
+  return { equivalentPressure, endForce: 0.785 * Math.pow(gMeanDia, 2) * equivalentPressure };
+};
+
+interface SideLoadParams {
+  pMpa: number;
+  equivalentPressure: number;
+  externalEndForce: number;
+  gasketM: number;
+  gasketY: number;
+  passM: number;
+  passY: number;
+  passPartitionWidth: number;
+  passPartitionLength: number;
+}
+
+// Gasket contact area: seating ring plus the full pass partition area
+const calculateContactArea = (seatingID: number, seatingOD: number, passArea: number) =>
+  ((Math.PI / 4) * (Math.pow(seatingOD, 2) - Math.pow(seatingID, 2))) + passArea;
+
+// Div.2 Table 4.16.3: basic seating width b0 from N and the facing sketch, effective
+// width b and the gasket load reaction diameter G
+const calculateGasketReaction = (nWidth: number, facingSketch: string, seatingID: number, seatingOD: number) => {
+  let b0Width = nWidth / 2;
+  if (facingSketch.startsWith('1a') || facingSketch.startsWith('1b')) {
+    b0Width = nWidth / 2;
+  } else if (facingSketch.startsWith('1c') || facingSketch.startsWith('1d')) {
+    b0Width = nWidth / 4;
+  } else if (facingSketch.startsWith('2')) {
+    b0Width = nWidth / 8;
+  }
+
+  const Cul = 25.4;
+  const bWidth = b0Width > 6 ? 0.5 * Cul * Math.sqrt(b0Width / Cul) : b0Width;
+  const gMeanDia = b0Width > 6 ? seatingOD - (2 * bWidth) : (seatingID + seatingOD) / 2;
+  return { b0Width, bWidth, gMeanDia };
+};
+
+// Div.2 4.16 operating (Wm1) and seating (Wm2) loads for one gasketed side of the joint
+const calculateSideLoads = (params: SideLoadParams, gMeanDia: number, bWidth: number) => {
+  const passArea = params.passPartitionWidth * params.passPartitionLength;
+  const hForce = (0.785 * Math.pow(gMeanDia, 2) * params.pMpa) + params.externalEndForce;
+  const hpForce = 2 * (params.pMpa + params.equivalentPressure) * (bWidth * Math.PI * gMeanDia * params.gasketM + passArea * params.passM);
+  const wm1 = hForce + hpForce;
+  const wm2 = (Math.PI * bWidth * gMeanDia * (params.gasketY * PSI_TO_MPA)) + (passArea * (params.passY * PSI_TO_MPA));
+  return { hForce, hpForce, wm1, wm2 };
+};
+
+export const calculateFullResults = (currentInputs: FlangeInputs): CalculationResults => {
+  const boltData = TEMA_BOLT_DATA.find(b => b.size === currentInputs.boltSize) || TEMA_BOLT_DATA[0];
+  const tensionData = HYDRAULIC_TENSIONING_DATA.find(t => t.size === currentInputs.boltSize);
+  const ringConfig = GASKET_RING_TABLE.find(r => currentInputs.insideDia >= r.min && currentInputs.insideDia <= r.max) || GASKET_RING_TABLE[GASKET_RING_TABLE.length - 1];
+
+  const innerRingWidth = currentInputs.hasInnerRing ? (currentInputs.innerRingWidthManual || ringConfig.irMin) : 0;
+  const outerRingWidth = currentInputs.hasOuterRing ? (currentInputs.outerRingWidthManual || ringConfig.orMin) : 0;
+  const effectiveC = currentInputs.cClearance || 2.5;
+  const shellGapA = currentInputs.shellGapA !== undefined ? currentInputs.shellGapA : 3.0;
+  const bConst = 1.5;
+
+  const roundedHoleSize = Math.ceil(boltData.holeSize);
+
+  const effectiveBMin = (currentInputs.useHydraulicTensioning && tensionData)
+    ? Math.max(boltData.B_min, tensionData.B_ten)
+    : boltData.B_min;
+
+  const bcdMethod1 = Math.ceil((effectiveBMin * 25.4 * currentInputs.boltCount) / Math.PI);
+  const radialDistance = boltData.R * 25.4;
+  const hubGeometry = resolveHubGeometry(currentInputs);
+  const bcdMethod2 = Math.ceil(currentInputs.insideDia + (2 * hubGeometry.g1) + (2 * radialDistance));
+
+  const baseBCDForAutoGasket = Math.max(bcdMethod1, bcdMethod2);
+
+  const autoSeatingOD_BCD = baseBCDForAutoGasket - roundedHoleSize - (2 * effectiveC) - (2 * bConst) - (2 * outerRingWidth);
+  const autoSeatingOD_Shell = currentInputs.insideDia + (2 * shellGapA) + (2 * innerRingWidth) + (2 * currentInputs.gasketSeatingWidth);
+
+  const autoSeatingOD = Math.max(autoSeatingOD_BCD, autoSeatingOD_Shell);
+  const autoSeatingID = autoSeatingOD - (2 * currentInputs.gasketSeatingWidth);
+
+  const seatingID = currentInputs.manualSeatingID !== 0 ? currentInputs.manualSeatingID : autoSeatingID;
+  const seatingOD = currentInputs.manualSeatingOD !== 0 ? currentInputs.manualSeatingOD : autoSeatingOD;
+
+  const gasketOD = seatingOD + (currentInputs.hasOuterRing ? (2 * outerRingWidth) : 0);
+  const gasketID = seatingID - (currentInputs.hasInnerRing ? (2 * innerRingWidth) : 0);
+
+  const bcdMethod3 = gasketOD + (2 * bConst) + (2 * effectiveC) + roundedHoleSize;
+  const bcdTema = Math.max(bcdMethod1, bcdMethod2, bcdMethod3);
+  const selectedBcdSource = bcdTema === bcdMethod1 ? 1 : (bcdTema === bcdMethod2 ? 2 : 3);
+  const finalBCD = currentInputs.actualBCD !== 0 ? currentInputs.actualBCD : bcdTema;
+
+  const edgeDistance = boltData.E * 25.4;
+  const odTema = Math.ceil(finalBCD + (2 * edgeDistance));
+  const finalOD = currentInputs.actualOD !== 0 ? currentInputs.actualOD : odTema;
+
+  const gType = GASKET_TYPES.find(g => g.id === currentInputs.gasketType) || GASKET_TYPES[0];
+  const gasketM = currentInputs.manualM !== 0 ? currentInputs.manualM : gType.m;
+  const gasketY = currentInputs.manualY !== 0 ? currentInputs.manualY : gType.y;
+
+  const passGType = GASKET_TYPES.find(g => g.id === currentInputs.passGasketType) || gType;
+  const passM = currentInputs.manualPassM !== 0 ? currentInputs.manualPassM : passGType.m;
+  const passY = currentInputs.manualPassY !== 0 ? currentInputs.manualPassY : passGType.y;
+
+  const boltNominalDia = currentInputs.boltSize * 25.4;
+  const geometricPitch = (Math.PI * finalBCD) / currentInputs.boltCount;
+  const boltSpacingMin = effectiveBMin * 25.4;
+
+  const whcMaxPitch = WHC_MAX_PITCH_TABLE[currentInputs.boltSize] || (2.5 * boltNominalDia + 12);
+  const maxBoltSpacing = whcMaxPitch;
+
+  const nWidth = currentInputs.gasketSeatingWidth;
+  const { b0Width, bWidth, gMeanDia } = calculateGasketReaction(nWidth, currentInputs.facingSketch, seatingID, seatingOD);
+
+  const pMpa = toMpa(currentInputs.designPressure, currentInputs.pressureUnit);
+  const externalLoad = calculateExternalLoad(currentInputs, gMeanDia);
+  const { hForce, hpForce, wm1, wm2 } = calculateSideLoads({
+    pMpa, equivalentPressure: externalLoad.equivalentPressure, externalEndForce: externalLoad.endForce,
+    gasketM, gasketY, passM, passY,
+    passPartitionWidth: currentInputs.passPartitionWidth, passPartitionLength: currentInputs.passPartitionLength
+  }, gMeanDia, bWidth);
+
+  const mat = ASME_BOLT_MATERIALS.find(m => m.id === currentInputs.boltMaterial) || ASME_BOLT_MATERIALS[0];
+  const ambientAllowableStress = mat.stresses[1] || 0;
+  const shellBoltAllowable = interpolateStress(toCelsius(currentInputs.designTemp, currentInputs.tempUnit), mat.stresses);
+
+  const totalBoltArea = boltData.tensileArea * currentInputs.boltCount;
+  const shellSide: JointSideLoads = {
+    pressure: pMpa, boltAllowableStress: shellBoltAllowable,
+    gasketM, gasketY, passM, passY, seatingID, b0Width, bWidth, gMeanDia,
+    passArea: currentInputs.passPartitionWidth * currentInputs.passPartitionLength,
+    contactArea: calculateContactArea(seatingID, seatingOD, currentInputs.passPartitionWidth * currentInputs.passPartitionLength),
+    gasketMaxStress: currentInputs.manualGasketMaxStress || gType.maxStress || 0,
+    externalEndForce: externalLoad.endForce,
+    hForce, hpForce, wm1, wm2,
+    requiredBoltArea: Math.max(wm1 / shellBoltAllowable, wm2 / ambientAllowableStress)
+  };
+
+  // Two-sided tubesheet joint: the shared bolting carries the governing side
+  let jointSides: JointSides | null = null;
+  let governingSide: JointSide = 'shell';
+  if (currentInputs.useTwoSidedJoint && currentInputs.tubeSide) {
+    const tube = currentInputs.tubeSide;
+    const tubeGType = GASKET_TYPES.find(g => g.id === tube.gasketType) || gType;
+    const tubePassGType = GASKET_TYPES.find(g => g.id === tube.passGasketType) || tubeGType;
+    const tubePMpa = toMpa(tube.designPressure, currentInputs.pressureUnit);
+    const tubeBoltAllowable = interpolateStress(toCelsius(tube.designTemp, currentInputs.tempUnit), mat.stresses);
+    // Both gaskets sit inside the same bolt circle, so the tube side keeps the seating OD
+    // and takes its own seating width and facing
+    const tubeSeatingID = tube.gasketSeatingWidth > 0 ? seatingOD - (2 * tube.gasketSeatingWidth) : seatingID;
+    const tubeReaction = calculateGasketReaction(
+      tube.gasketSeatingWidth || nWidth, tube.facingSketch || currentInputs.facingSketch, tubeSeatingID, seatingOD
+    );
+    const tubeExternalLoad = calculateExternalLoad(currentInputs, tubeReaction.gMeanDia);
+    const tubeLoads = calculateSideLoads({
+      pMpa: tubePMpa, equivalentPressure: tubeExternalLoad.equivalentPressure, externalEndForce: tubeExternalLoad.endForce,
+      gasketM: tubeGType.m, gasketY: tubeGType.y, passM: tubePassGType.m, passY: tubePassGType.y,
+      passPartitionWidth: tube.passPartitionWidth, passPartitionLength: tube.passPartitionLength
+    }, tubeReaction.gMeanDia, tubeReaction.bWidth);
+
+    jointSides = {
+      shell: shellSide,
+      tube: {
+        pressure: tubePMpa, boltAllowableStress: tubeBoltAllowable,
+        gasketM: tubeGType.m, gasketY: tubeGType.y, passM: tubePassGType.m, passY: tubePassGType.y,
+        seatingID: tubeSeatingID, ...tubeReaction,
+        passArea: tube.passPartitionWidth * tube.passPartitionLength,
+        contactArea: calculateContactArea(tubeSeatingID, seatingOD, tube.passPartitionWidth * tube.passPartitionLength),
+        gasketMaxStress: tubeGType.maxStress || 0,
+        externalEndForce: tubeExternalLoad.endForce,
+        ...tubeLoads,
+        requiredBoltArea: Math.max(tubeLoads.wm1 / tubeBoltAllowable, tubeLoads.wm2 / ambientAllowableStress)
+      }
+    };
+    governingSide = jointSides.tube.requiredBoltArea > shellSide.requiredBoltArea ? 'tube' : 'shell';
+  }
+
+  const sides = jointSides ? [jointSides.shell, jointSides.tube] : [shellSide];
+  const designAllowableStress = Math.min(...sides.map(side => side.boltAllowableStress));
+  const requiredBoltArea = Math.max(...sides.map(side => side.requiredBoltArea));
+  const requiredBoltLoad = Math.max(...sides.map(side => Math.max(side.wm1, side.wm2)));
+
+  // App.2 flange design bolt load and the gasket stress it produces
+  const designBoltLoad = ((requiredBoltArea + totalBoltArea) * ambientAllowableStress) / 2;
+  // On a two-sided joint the same W crushes both gaskets; the side closest to its limit is checked
+  const crushingRatio = (side: JointSideLoads) =>
+    side.gasketMaxStress > 0 && side.contactArea > 0 ? designBoltLoad / side.contactArea / side.gasketMaxStress : 0;
+  const gasketCrushingSide: JointSide = jointSides && crushingRatio(jointSides.tube) > crushingRatio(jointSides.shell) ? 'tube' : 'shell';
+  const crushingLoads = jointSides ? jointSides[gasketCrushingSide] : shellSide;
+  const gasketContactArea = crushingLoads.contactArea;
+  const gasketSeatingStress = gasketContactArea > 0 ? designBoltLoad / gasketContactArea : 0;
+  const gasketMaxStress = crushingLoads.gasketMaxStress;
+
+  const baseResults = {
+    bcdMethod1, bcdMethod2, bcdMethod3, selectedBcdSource,
+    bcdTema, odTema, boltSpacingMin, maxBoltSpacing,
+    geometricPitch, actualBoltSpacing: maxBoltSpacing,
+    spacingOk: geometricPitch >= boltSpacingMin && geometricPitch <= maxBoltSpacing,
+    radialDistance, edgeDistance, effectiveC, shellGapA,
+    gasketSeatingWidth: nWidth, innerRingWidth, outerRingWidth,
+    gasketID, seatingID, seatingOD, gasketOD, finalBCD, finalOD,
+    maxRaisedFace: finalBCD - roundedHoleSize - (2 * effectiveC) - (2 * bConst) - (2 * outerRingWidth),
+    boltHoleSize: roundedHoleSize,
+    singleBoltArea: boltData.tensileArea, totalBoltArea,
+    requiredBoltArea,
+    totalBoltLoadAmbient: totalBoltArea * ambientAllowableStress,
+    totalBoltLoadDesign: totalBoltArea * designAllowableStress,
+    ambientAllowableStress, designAllowableStress,
+    gasketM, gasketY, passM, passY, wm1, wm2, hForce, hpForce, gMeanDia, bWidth, b0Width, nWidth,
+    equivalentPressure: externalLoad.equivalentPressure, externalEndForce: externalLoad.endForce,
+    designBoltLoad, gasketCrushingSide, gasketContactArea, gasketSeatingStress, gasketMaxStress,
+    gasketStressOk: gasketMaxStress === 0 || gasketSeatingStress <= gasketMaxStress,
+    jointSides, governingSide, requiredBoltLoad,
+    hubGeometry,
+    passLaneBolts: findPassLaneBolts(currentInputs.boltCount, finalBCD, roundedHoleSize, getPassLaneOffsets(currentInputs))
+  };
+
+  const flangeDesign = calculateFlangeDesign(currentInputs, baseResults);
+  const designResults = {
+    ...baseResults,
+    flangeDesign,
+    bolting: calculateStudBolting(currentInputs, flangeDesign.thickness)
+  };
+
+  return {
+    ...designResults,
+    thermal: calculateThermalBoltLoad(currentInputs, designResults, calculatePcc1(currentInputs, designResults))
+  };
+};
+
+export const calculatePcc1 = (inputs: FlangeInputs, results: Omit<CalculationResults, 'thermal'>): Pcc1Results => {
+  // 1. Ag: Gasket Area Calculation
+  const ringArea = (Math.PI / 4) * (Math.pow(results.seatingOD, 2) - Math.pow(results.seatingID, 2));
+  const reducedPassArea = (inputs.passPartAreaReduction / 100) * inputs.passPartitionWidth * inputs.passPartitionLength;
+  const totalAg = ringArea + reducedPassArea;
+
+  // 2. Sbsel: Raw calculated bolt stress
+  const totalBoltRootArea = results.singleBoltArea * inputs.boltCount;
+  const sbSelCalc = totalBoltRootArea > 0 ? (inputs.sgT * totalAg) / totalBoltRootArea : 0;
+
+  // 3. Select Sbsel Logic
+  const valA = Math.min(sbSelCalc, inputs.sbMax || Infinity);
+  const valB = Math.max(valA, inputs.sbMin || 0);
+  const valC = Math.min(valB, inputs.sfMax || Infinity);
+  const sbSelFinal = Math.min(valA, valB, valC);
+
+  const pMpa = toMpa(inputs.designPressure, inputs.pressureUnit);
+
+  // Step 6 on a two-sided joint: the higher-pressure side unloads the gasket most, so
+  // its pressure, seating ID, pass partition and external end force are used
+  const { jointSides } = results;
+  const step6Side: JointSide = jointSides && jointSides.tube.pressure > jointSides.shell.pressure ? 'tube' : 'shell';
+  const step6Loads = jointSides?.[step6Side];
+  const step6PMpa = step6Loads ? step6Loads.pressure : pMpa;
+  const step6SeatingID = step6Loads ? step6Loads.seatingID : results.seatingID;
+  const sideAg = (loads: JointSideLoads) =>
+    ((Math.PI / 4) * (Math.pow(results.seatingOD, 2) - Math.pow(loads.seatingID, 2))) + ((inputs.passPartAreaReduction / 100) * loads.passArea);
+  const step6Ag = step6Loads ? sideAg(step6Loads) : totalAg;
+  const step6EndForce = step6Loads ? step6Loads.externalEndForce : results.externalEndForce;
+
+  // Steps 5 and 7 on a two-sided joint: the larger gasket is hardest to seat, the smaller crushes first
+  const sideAgs = jointSides ? [sideAg(jointSides.shell), sideAg(jointSides.tube)] : [totalAg];
+  const step5Ag = Math.max(...sideAgs);
+  const step7Ag = Math.min(...sideAgs);
+
+  // Step 5: Sbsel >= Sgmin-S * [Ag / (Ab * nb)]
+  const step5Threshold = totalBoltRootArea > 0 ? inputs.sgMinS * (step5Ag / totalBoltRootArea) : 0;
+  // Step 6: Sbsel ≥ (Sgmin-O Ag + pi()/4Pmax GI.D^2 + F_ext)/(g Abnb)
+  const step6Numerator = (inputs.sgMinO * step6Ag) + ((Math.PI / 4) * step6PMpa * Math.pow(step6SeatingID, 2)) + step6EndForce;
+  const step6Denominator = (inputs.g || 1) * totalBoltRootArea;
+  const step6Threshold = totalBoltRootArea > 0 ? step6Numerator / step6Denominator : 0;
+  // Step 7. Sbsel ≤ Sgmax [Ag/(Abnb)]
+  const step7Threshold = totalBoltRootArea > 0 ? inputs.sgMax * (step7Ag / totalBoltRootArea) : Infinity;
+  // Step 8. Sbsel ≤ Sfmax (g / Φfmax)
+  const step8Threshold = inputs.phiFMax > 0 ? inputs.sfMax * ((inputs.g || 1) / inputs.phiFMax) : Infinity;
+
+  const isStep5Ok = sbSelFinal >= step5Threshold - 0.001;
+  const isStep6Ok = sbSelFinal >= step6Threshold - 0.001;
+  const isStep7Ok = inputs.sgMax === 0 ? true : (sbSelFinal <= step7Threshold + 0.001);
+  const isStep8Ok = inputs.phiFMax === 0 ? true : (sbSelFinal <= step8Threshold + 0.001);
+
+  const stepsOk = isStep5Ok && isStep6Ok && isStep7Ok && isStep8Ok;
+
+  return {
+    active: inputs.usePcc1Check,
+    ringArea, reducedPassArea, totalAg, totalBoltRootArea,
+    sbSelCalc, valA, valB, valC, sbSelFinal, pMpa,
+    step6Side, step6PMpa, step6Ag, step6SeatingID, step6EndForce, step5Ag, step7Ag,
+    step5Threshold, step6Threshold, step7Threshold, step8Threshold,
+    isStep5Ok, isStep6Ok, isStep7Ok, isStep8Ok,
+    withinBounds: sbSelFinal <= inputs.sbMax && sbSelFinal >= inputs.sbMin && stepsOk,
+    safe: inputs.usePcc1Check ? stepsOk : true
+  };
+};
+
+export const evaluateFlange = (inputs: FlangeInputs): FlangeEvaluation => {
+  const results = calculateFullResults(inputs);
+  const pcc1 = calculatePcc1(inputs, results);
+  const torque = calculateBoltTorque(inputs, results, pcc1);
+  const tensioning = calculateTensioning(inputs, results, pcc1);
+  const elongation = calculateElongation(inputs, results, pcc1);
+
+  const requiredLoad = results.requiredBoltLoad;
+  const availableLoad = results.totalBoltLoadDesign;
+  const marginPercent = ((availableLoad - requiredLoad) / requiredLoad) * 100;
+
+  return {
+    results,
+    pcc1,
+    torque,
+    tensioning,
+    elongation,
+    requiredLoad,
+    availableLoad,
+    marginPercent,
+    isSafe: availableLoad >= requiredLoad
+  };
+};
@@ -0,0 +1,147 @@
+import { FlangeEvaluation, FlangeInputs, JobProgress, MonteCarloResults, MonteCarloSettings, StressHistogram } from '../types';
+import { resolveTargetBoltStress } from './torque';
+
+// Stochastic assembly check. Each sample tightens every bolt to the target preload with
+// a normal scatter (±scatter = ±3σ) and draws gasket m / y within their tolerance band.
+// Each bolt seats its own 1/nb share of the gasket area, so the local gasket stress is
+// checked against the PCC-1 Sgmin-S / Sgmin-O / Sgmax limits per bolt segment.
+
+const HISTOGRAM_BINS = 30;
+// Preloads are binned on the fly rather than stored; percentiles are read from this
+// finer grid and the display histogram merges it down to HISTOGRAM_BINS
+const PERCENTILE_BINS_PER_BAR = 20;
+// Grid spans the target ±4σ (±4/3 × scatter); the rare draws beyond fall in the end bins
+const GRID_SIGMAS = 4;
+const PROGRESS_INTERVAL = 200;
+
+// Seeded so the same inputs always give the same answer
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const createNormal = (random: () => number) => () => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Value at fraction p of the binned distribution, interpolated inside the bin
+const percentile = (counts: number[], total: number, min: number, binWidth: number, p: number) => {
+  const target = p * total;
+  let cumulative = 0;
+  for (let i = 0; i < counts.length; i++) {
+    if (counts[i] > 0 && cumulative + counts[i] >= target) {
+      return min + (i + (target - cumulative) / counts[i]) * binWidth;
+    }
+    cumulative += counts[i];
+  }
+  return min + counts.length * binWidth;
+};
+
+export const runMonteCarlo = (
+  inputs: FlangeInputs,
+  evaluation: FlangeEvaluation,
+  settings: MonteCarloSettings,
+  onProgress?: (progress: JobProgress) => void
+): MonteCarloResults => {
+  const { results, pcc1 } = evaluation;
+  const random = createRandom(1);
+  const normal = createNormal(random);
+
+  const boltCount = inputs.boltCount;
+  const { targetStress } = resolveTargetBoltStress(inputs, results, pcc1);
+  const targetPreload = targetStress * results.singleBoltArea;
+  const sigma = settings.preloadScatter / 300;
+  const tolerance = settings.gasketTolerance / 100;
+
+  // Assembly stress that leaves Sgmin-O after the pressure end force (and external force)
+  // unloads the gasket, with g the fraction of assembly load retained (Step 6)
+  const pressureEndForce = (Math.PI / 4) * pcc1.step6PMpa * Math.pow(pcc1.step6SeatingID, 2) + pcc1.step6EndForce;
+  const sgMinOAssembly = pcc1.totalAg > 0 ? (inputs.sgMinO * pcc1.step6Ag + pressureEndForce) / ((inputs.g || 1) * pcc1.totalAg) : 0;
+  const segmentArea = pcc1.totalAg / boltCount;
+  const sides = results.jointSides ? [results.jointSides.shell, results.jointSides.tube] : [results];
+
+  const gridBins = HISTOGRAM_BINS * PERCENTILE_BINS_PER_BAR;
+  const gridHalfWidth = targetPreload * Math.max(GRID_SIGMAS * sigma, 0.01);
+  const gridMin = Math.max(0, targetPreload - gridHalfWidth);
+  const gridWidth = (targetPreload + gridHalfWidth - gridMin) / gridBins || 1;
+  const preloadCounts = new Array(gridBins).fill(0);
+  let preloadSum = 0;
+
+  let underSeating = 0;
+  let operatingUnderload = 0;
+  let crushing = 0;
+  let boltLoadShortfall = 0;
+  let allOk = 0;
+
+  for (let s = 0; s < settings.samples; s++) {
+    const mFactor = 1 + tolerance * (2 * random() - 1);
+    const yFactor = 1 + tolerance * (2 * random() - 1);
+    // Wm1 scales with m through Hp only; Wm2 is proportional to y
+    const requiredLoad = Math.max(...sides.map(side => Math.max(side.hForce + mFactor * side.hpForce, yFactor * side.wm2)));
+
+    let totalLoad = 0;
+    let minPreload = Infinity;
+    let maxPreload = 0;
+    for (let i = 0; i < boltCount; i++) {
+      const preload = Math.max(0, targetPreload * (1 + sigma * normal()));
+      preloadCounts[Math.min(gridBins - 1, Math.max(0, Math.floor((preload - gridMin) / gridWidth)))]++;
+      preloadSum += preload;
+      totalLoad += preload;
+      minPreload = Math.min(minPreload, preload);
+      maxPreload = Math.max(maxPreload, preload);
+    }
+    const minStress = minPreload / segmentArea;
+    const maxStress = maxPreload / segmentArea;
+
+    const isUnderSeated = inputs.sgMinS > 0 && minStress < inputs.sgMinS;
+    const isOperatingUnderload = inputs.sgMinO > 0 && minStress < sgMinOAssembly;
+    const isCrushed = inputs.sgMax > 0 && maxStress > inputs.sgMax;
+    const isShort = totalLoad < requiredLoad;
+
+    if (isUnderSeated) underSeating++;
+    if (isOperatingUnderload) operatingUnderload++;
+    if (isCrushed) crushing++;
+    if (isShort) boltLoadShortfall++;
+    if (!isUnderSeated && !isOperatingUnderload && !isCrushed && !isShort) allOk++;
+
+    if ((s + 1) % PROGRESS_INTERVAL === 0) onProgress?.({ done: s + 1, total: settings.samples });
+  }
+
+  const samples = settings.samples || 1;
+  const boltSamples = samples * boltCount || 1;
+  const preloadAt = (p: number) => percentile(preloadCounts, boltSamples, gridMin, gridWidth, p);
+  // Local gasket stress is the bolt preload over the bolt's gasket segment
+  const histogram: StressHistogram = {
+    min: gridMin / segmentArea,
+    binWidth: (gridWidth * PERCENTILE_BINS_PER_BAR) / segmentArea,
+    counts: Array.from({ length: HISTOGRAM_BINS }, (_, bar) =>
+      preloadCounts.slice(bar * PERCENTILE_BINS_PER_BAR, (bar + 1) * PERCENTILE_BINS_PER_BAR).reduce((sum, c) => sum + c, 0)
+    )
+  };
+
+  return {
+    settings,
+    method: inputs.useHydraulicTensioning ? 'tensioning' : 'torque',
+    targetPreload,
+    preloadP05: preloadAt(0.05),
+    preloadP95: preloadAt(0.95),
+    stressMean: preloadSum / boltSamples / segmentArea,
+    stressP05: preloadAt(0.05) / segmentArea,
+    stressP95: preloadAt(0.95) / segmentArea,
+    sgMinOAssembly,
+    histogram,
+    underSeating: underSeating / samples,
+    operatingUnderload: operatingUnderload / samples,
+    crushing: crushing / samples,
+    boltLoadShortfall: boltLoadShortfall / samples,
+    allOk: allOk / samples
+  };
+};
@@ -0,0 +1,120 @@
+import { HYDRAULIC_TENSIONING_DATA, STEEL_DENSITY, TEMA_BOLT_DATA } from '../constants';
+import { CalculationResults, FlangeInputs, JobProgress, OptimizerCandidate, OptimizerObjective, PitchStatus, TighteningMethodComparison } from '../types';
+import { evaluateFlange } from './flangeEngine';
+import { flangeTypeHasHub } from './appendix2';
+import { getCandidateBoltCounts } from './boltLayout';
+
+// Bolt size / count search. Every pair meeting the minimum bolt load margin is
+// returned so the engineer can pick on BCD, OD, weight or cost rather than load alone.
+
+// Searched designs always use the calculated BCD, OD and gasket
+export const resetManualOverrides = (inputs: FlangeInputs): FlangeInputs => ({
+  ...inputs,
+  useManualOverride: false,
+  actualBCD: 0,
+  actualOD: 0,
+  manualSeatingID: 0,
+  manualSeatingOD: 0
+});
+
+export const getSearchSizes = (inputs: FlangeInputs, fixedSize: boolean): number[] => (
+  fixedSize ? [inputs.boltSize] : TEMA_BOLT_DATA.filter(b => b.size >= 0.75).map(b => b.size)
+);
+
+// One flange forging: ring (OD to bore, thickness t) plus a tapered hub frustum
+export const estimateForgingWeight = (inputs: FlangeInputs, results: CalculationResults): number => {
+  const bore = inputs.insideDia;
+  const ringVolume = (Math.PI / 4) * (Math.pow(results.finalOD, 2) - Math.pow(bore, 2)) * results.flangeDesign.thickness;
+
+  let hubVolume = 0;
+  if (flangeTypeHasHub(inputs.flangeType)) {
+    const { g1, hubLength } = results.hubGeometry;
+    const r1 = (bore / 2) + g1;
+    const r0 = (bore / 2) + inputs.g0;
+    hubVolume = (Math.PI * hubLength / 3) * (r1 * r1 + r1 * r0 + r0 * r0) - (Math.PI * Math.pow(bore / 2, 2) * hubLength);
+  }
+  return (ringVolume + hubVolume) * STEEL_DENSITY;
+};
+
+// null when the flange has no thickness (no App. 2 solution): the weights would be guesses
+export const evaluateCandidate = (inputs: FlangeInputs, boltSize: number, boltCount: number): OptimizerCandidate | null => {
+  const evaluation = evaluateFlange({ ...inputs, boltSize, boltCount });
+  const { results, pcc1 } = evaluation;
+  if (!results.bolting.sized) return null;
+
+  let pitchStatus: PitchStatus = 'ok';
+  if (results.geometricPitch < results.boltSpacingMin) pitchStatus = 'tight';
+  else if (results.geometricPitch > results.maxBoltSpacing) pitchStatus = 'wide';
+
+  return {
+    boltSize,
+    boltCount,
+    requiredLoad: evaluation.requiredLoad,
+    marginPercent: evaluation.marginPercent,
+    finalBCD: results.finalBCD,
+    finalOD: results.finalOD,
+    geometricPitch: results.geometricPitch,
+    pitchStatus,
+    pcc1Ok: inputs.usePcc1Check ? pcc1.safe : null,
+    forgingWeight: estimateForgingWeight(inputs, results),
+    boltingCost: results.bolting.totalWeight * (inputs.boltingCostPerKg || 0),
+    passLaneBolts: results.passLaneBolts
+  };
+};
+
+type ProgressCallback = (progress: JobProgress) => void;
+
+// Feasible candidates ranked by required bolt load (the original objective)
+export const searchBoltCandidates = (inputs: FlangeInputs, fixedSize: boolean, onProgress?: ProgressCallback): OptimizerCandidate[] => {
+  const searchInputs = resetManualOverrides(inputs);
+  const candidates: OptimizerCandidate[] = [];
+
+  const counts = getCandidateBoltCounts(searchInputs);
+  const sizes = getSearchSizes(searchInputs, fixedSize);
+  const total = sizes.length * counts.length;
+  let done = 0;
+
+  sizes.forEach(size => {
+    counts.forEach(count => {
+      const candidate = evaluateCandidate(searchInputs, size, count);
+      onProgress?.({ done: ++done, total });
+      if (!candidate) return;
+      if (candidate.marginPercent < (inputs.optimizerMinMargin || 0)) return;
+      if (inputs.straddlePassLanes && candidate.passLaneBolts.length > 0) return;
+      candidates.push(candidate);
+    });
+  });
+
+  return candidates.sort((a, b) => a.requiredLoad - b.requiredLoad);
+};
+
+// Candidates not dominated on both objectives (both minimised)
+export const findParetoFront = (candidates: OptimizerCandidate[], first: OptimizerObjective, second: OptimizerObjective): OptimizerCandidate[] => (
+  candidates.filter(c => !candidates.some(other =>
+    other !== c &&
+    other[first] <= c[first] && other[second] <= c[second] &&
+    (other[first] < c[first] || other[second] < c[second])
+  ))
+);
+
+// Best pitch-compliant candidate for one objective (ties go to the lower required load)
+export const findBestCandidate = (candidates: OptimizerCandidate[], objective: OptimizerObjective): OptimizerCandidate | null => (
+  candidates
+    .filter(c => c.pitchStatus === 'ok')
+    .reduce<OptimizerCandidate | null>((best, c) => (
+      !best || c[objective] < best[objective] || (c[objective] === best[objective] && c.requiredLoad < best.requiredLoad) ? c : best
+    ), null)
+);
+
+// Progress runs over both searches: the torque half first, then tensioning
+export const compareTighteningMethods = (inputs: FlangeInputs, fixedSize: boolean, onProgress?: ProgressCallback): TighteningMethodComparison => {
+  const halfProgress = (offset: number): ProgressCallback | undefined => onProgress && (({ done, total }) => (
+    onProgress({ done: offset * total + done, total: 2 * total })
+  ));
+
+  return {
+    torque: searchBoltCandidates({ ...inputs, useHydraulicTensioning: false }, fixedSize, halfProgress(0)),
+    tensioning: searchBoltCandidates({ ...inputs, useHydraulicTensioning: true }, fixedSize, halfProgress(1))
+      .filter(c => HYDRAULIC_TENSIONING_DATA.some(t => t.size === c.boltSize))
+  };
+};
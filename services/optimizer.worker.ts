@@ -0,0 +1,29 @@
+import { JobProgress, OptimizerJob, OptimizerWorkerMessage } from '../types';
+import { compareTighteningMethods, searchBoltCandidates } from './optimizer';
+import { runSweep } from './sweep';
+import { evaluateFlange } from './flangeEngine';
+import { runMonteCarlo } from './monteCarlo';
+
+// Runs one optimizer job off the UI thread. Cancellation is done by the client
+// terminating the worker, so the job loop itself never has to check for it.
+
+const post = (message: OptimizerWorkerMessage) => self.postMessage(message);
+
+const reportProgress = (progress: JobProgress) => post({ type: 'progress', progress });
+
+const runJob = (job: OptimizerJob) => {
+  switch (job.kind) {
+    case 'search': return searchBoltCandidates(job.inputs, job.fixedSize, reportProgress);
+    case 'compare': return compareTighteningMethods(job.inputs, job.fixedSize, reportProgress);
+    case 'sweep': return runSweep(job.inputs, job.request, reportProgress);
+    case 'monteCarlo': return runMonteCarlo(job.inputs, evaluateFlange(job.inputs), job.settings, reportProgress);
+  }
+};
+
+self.onmessage = (e: MessageEvent<OptimizerJob>) => {
+  try {
+    post({ type: 'result', result: runJob(e.data) });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
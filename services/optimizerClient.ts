@@ -0,0 +1,43 @@
+import { JobProgress, OptimizerJob, OptimizerJobResults, OptimizerWorkerMessage } from '../types';
+
+// Starts an optimizer job in a dedicated worker. The promise resolves with the job
+// result, or with null when the job is cancelled; cancel() terminates the worker.
+
+export interface OptimizerJobHandle<T> {
+  promise: Promise<T | null>;
+  cancel: () => void;
+}
+
+export const runOptimizerJob = <K extends OptimizerJob['kind']>(
+  job: Extract<OptimizerJob, { kind: K }>,
+  onProgress: (progress: JobProgress) => void
+): OptimizerJobHandle<OptimizerJobResults[K]> => {
+  const worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' });
+  let settle: (value: OptimizerJobResults[K] | null) => void = () => {};
+
+  const promise = new Promise<OptimizerJobResults[K] | null>((resolve, reject) => {
+    settle = (value) => {
+      worker.terminate();
+      resolve(value);
+    };
+
+    worker.onmessage = (e: MessageEvent<OptimizerWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+      } else if (message.type === 'result') {
+        settle(message.result as OptimizerJobResults[K]);
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Optimizer worker failed'));
+    };
+  });
+
+  worker.postMessage(job);
+  return { promise, cancel: () => settle(null) };
+};
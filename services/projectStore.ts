@@ -0,0 +1,60 @@
+import { DisplayUnits, Project, ProjectMeta } from '../types';
+
+// Local project storage in IndexedDB. Every project is one record keyed by id, so a
+// save always replaces the whole project (records, units and metadata together).
+
+const DB_NAME = 'flange-genie';
+const DB_VERSION = 1;
+const STORE = 'projects';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createProject = (meta: Partial<ProjectMeta>, units: DisplayUnits): Project => ({
+  id: Date.now().toString(),
+  meta: { name: 'Untitled Project', client: '', jobNumber: '', exchangerTag: '', revision: '0', ...meta },
+  units,
+  records: [],
+  updatedAt: Date.now()
+});
+
+// Most recently updated first
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await runRequest<Project[]>('readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await runRequest('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
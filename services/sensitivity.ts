@@ -0,0 +1,43 @@
+import { CalculationResults, FlangeInputs, SensitivityEntry, SensitivityPoint, SensitivityResult } from '../types';
+import { SENSITIVITY_FIELDS } from '../constants';
+import { evaluateFlange } from './flangeEngine';
+import { applySweepValue } from './sweep';
+
+// One-at-a-time sensitivity of the bolt load margin and flange OD. Each field is moved
+// down and up by the same percentage of its current value while the rest of the design
+// is held; fields that are zero (e.g. no pass partition) have nothing to perturb.
+
+const getBaseValue = (inputs: FlangeInputs, results: CalculationResults, field: keyof FlangeInputs): number => {
+  if (field === 'manualM') return results.gasketM;
+  if (field === 'manualY') return results.gasketY;
+  return Number(inputs[field]) || 0;
+};
+
+const evaluatePoint = (inputs: FlangeInputs, field: keyof FlangeInputs, value: number): SensitivityPoint => {
+  const { results, marginPercent } = evaluateFlange(applySweepValue(inputs, field, value));
+  return { value, marginPercent, finalOD: results.finalOD };
+};
+
+export const runSensitivity = (inputs: FlangeInputs, percent: number): SensitivityResult => {
+  const base = evaluateFlange(inputs);
+  const factor = percent / 100;
+
+  const entries: SensitivityEntry[] = SENSITIVITY_FIELDS
+    .map(({ id, label }) => ({ id, label, baseValue: getBaseValue(inputs, base.results, id) }))
+    .filter(f => f.baseValue !== 0)
+    .map(({ id, label, baseValue }) => {
+      const low = evaluatePoint(inputs, id, baseValue * (1 - factor));
+      const high = evaluatePoint(inputs, id, baseValue * (1 + factor));
+      return {
+        field: id,
+        label,
+        baseValue,
+        low,
+        high,
+        marginSwing: Math.abs(high.marginPercent - low.marginPercent),
+        odSwing: Math.abs(high.finalOD - low.finalOD)
+      };
+    });
+
+  return { percent, baseMargin: base.marginPercent, baseOD: base.results.finalOD, entries };
+};
@@ -0,0 +1,78 @@
+import { DisplayUnits, FlangeInputs, JobProgress, SweepAxis, SweepPoint, SweepRequest, SweepResult } from '../types';
+import { SWEEP_OUTPUTS } from '../constants';
+import { calculateAutoG0, evaluateFlange, G0_TRIGGER_FIELDS, resolveHubGeometry } from './flangeEngine';
+import { resetManualOverrides } from './optimizer';
+import { convertQuantity } from './units';
+
+// Parametric sweep over one or two input fields. Each point is a fresh design:
+// g0 / g1 follow the swept field as they do in the calculator, and the BCD, OD and
+// gasket are always calculated.
+
+export const getAxisValues = (axis: SweepAxis): number[] => {
+  const steps = Math.max(Math.floor(axis.steps), 2);
+  const values = Array.from({ length: steps }, (_, i) => axis.from + ((axis.to - axis.from) * i) / (steps - 1));
+  // Bolt counts must stay whole
+  return axis.field === 'boltCount' ? Array.from(new Set(values.map(Math.round))) : values;
+};
+
+export const applySweepValue = (inputs: FlangeInputs, field: keyof FlangeInputs, value: number): FlangeInputs => {
+  const next = { ...inputs, [field]: value };
+  if (G0_TRIGGER_FIELDS.includes(field)) {
+    next.g0 = calculateAutoG0(next);
+    if (!next.lockG1) next.g1 = resolveHubGeometry(next).g1;
+  }
+  return next;
+};
+
+export const runSweep = (inputs: FlangeInputs, request: SweepRequest, onProgress?: (progress: JobProgress) => void): SweepResult => {
+  const [xAxis, yAxis] = request.axes;
+  const xValues = getAxisValues(xAxis);
+  const yValues = yAxis ? getAxisValues(yAxis) : [];
+  const baseInputs = resetManualOverrides(inputs);
+
+  const total = xValues.length * Math.max(yValues.length, 1);
+  const points: SweepPoint[] = [];
+
+  (yAxis ? yValues : [null]).forEach(y => {
+    xValues.forEach(x => {
+      let pointInputs = applySweepValue(baseInputs, xAxis.field, x);
+      if (yAxis) pointInputs = applySweepValue(pointInputs, yAxis.field, y);
+
+      const { results, marginPercent } = evaluateFlange(pointInputs);
+      points.push({
+        x,
+        y,
+        values: {
+          finalBCD: results.finalBCD,
+          finalOD: results.finalOD,
+          requiredBoltArea: results.requiredBoltArea,
+          totalBoltArea: results.totalBoltArea,
+          wm1: results.wm1,
+          wm2: results.wm2,
+          gasketSeatingStress: results.gasketSeatingStress,
+          marginPercent
+        }
+      });
+      onProgress?.({ done: points.length, total });
+    });
+  });
+
+  return { request, xValues, yValues, points };
+};
+
+// Axis columns are in the calculator's input units; outputs follow the display units
+export const sweepToCsv = (result: SweepResult, units: DisplayUnits): string => {
+  const [xAxis, yAxis] = result.request.axes;
+  const outputs = result.request.outputs.map(id => SWEEP_OUTPUTS.find(o => o.id === id)!);
+  const header = [
+    xAxis.field,
+    ...(yAxis ? [yAxis.field] : []),
+    ...outputs.map(o => `${o.id} (${o.quantity ? units[o.quantity] : o.unit})`)
+  ];
+  const rows = result.points.map(point => [
+    point.x,
+    ...(yAxis ? [point.y] : []),
+    ...outputs.map(o => (o.quantity ? convertQuantity(point.values[o.id], o.quantity, units) : point.values[o.id]))
+  ].join(','));
+  return [header.join(','), ...rows].join('\n');
+};
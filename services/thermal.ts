@@ -0,0 +1,47 @@
+import { ASME_BOLT_MATERIALS, ASME_SHELL_MATERIALS, MODULUS_OF_ELASTICITY, MODULUS_TEMP_STEPS, THERMAL_EXPANSION } from '../constants';
+import { CalculationResults, FlangeInputs, Pcc1Results, ThermalResults } from '../types';
+import { interpolateCurve, toCelsius } from './engineeringUtils';
+import { resolveTargetBoltStress } from './torque';
+
+// Bolt load at design temperature from differential expansion of the bolts and the
+// joint stack they clamp. The stack is treated as rigid and both parts reach design
+// temperature, so the free growth mismatch is taken entirely by the bolts.
+
+const ASSEMBLY_TEMP_C = 20;
+
+// Operating load the bolts must keep at temperature; on a two-sided joint the higher side governs
+export const governingWm1 = (results: Pick<CalculationResults, 'wm1' | 'jointSides'>): number => {
+  const sides = results.jointSides ? [results.jointSides.shell, results.jointSides.tube] : [results];
+  return Math.max(...sides.map(side => side.wm1));
+};
+
+// The assembly load is the tightening target (PCC-1 Sbsel or W / Ab) over all bolts
+export const calculateThermalBoltLoad = (inputs: FlangeInputs, results: Omit<CalculationResults, 'thermal'>, pcc1: Pcc1Results): ThermalResults => {
+  const boltMat = ASME_BOLT_MATERIALS.find(m => m.id === inputs.boltMaterial) || ASME_BOLT_MATERIALS[0];
+  const shellMat = ASME_SHELL_MATERIALS.find(m => m.id === inputs.shellMaterial) || ASME_SHELL_MATERIALS[0];
+  const designTempC = toCelsius(inputs.designTemp, inputs.tempUnit);
+  const deltaT = designTempC - ASSEMBLY_TEMP_C;
+
+  const boltAlpha = interpolateCurve(designTempC, MODULUS_TEMP_STEPS, THERMAL_EXPANSION[boltMat.group]);
+  const flangeAlpha = interpolateCurve(designTempC, MODULUS_TEMP_STEPS, THERMAL_EXPANSION[shellMat.group]);
+  const boltModulusAmbient = interpolateCurve(ASSEMBLY_TEMP_C, MODULUS_TEMP_STEPS, MODULUS_OF_ELASTICITY[boltMat.group]) * 1000;
+  const boltModulusDesign = interpolateCurve(designTempC, MODULUS_TEMP_STEPS, MODULUS_OF_ELASTICITY[boltMat.group]) * 1000;
+
+  // Grip = clamped stack between nut faces; effective length adds one nut engagement (1 d) per PCC-1
+  const gripLength = results.bolting.gripLength;
+  const effectiveLength = gripLength + (inputs.boltSize * 25.4);
+
+  const differentialStrain = (flangeAlpha - boltAlpha) * 1e-6 * deltaT;
+  const assemblyLoad = resolveTargetBoltStress(inputs, results, pcc1).targetStress * results.totalBoltArea;
+  const modulusLoadChange = assemblyLoad * ((boltModulusDesign / boltModulusAmbient) - 1);
+  const thermalLoadChange = results.totalBoltArea * boltModulusDesign * differentialStrain * (gripLength / effectiveLength);
+  // Bolts cannot go into compression; a full loss of preload leaves the joint open
+  const boltLoadAtTemp = Math.max(assemblyLoad + modulusLoadChange + thermalLoadChange, 0);
+
+  return {
+    designTempC, deltaT, boltAlpha, flangeAlpha, boltModulusAmbient, boltModulusDesign,
+    gripLength, effectiveLength, differentialStrain,
+    assemblyLoad, modulusLoadChange, thermalLoadChange, boltLoadAtTemp,
+    ok: boltLoadAtTemp >= governingWm1(results)
+  };
+};
@@ -0,0 +1,80 @@
+import { TighteningPattern, TighteningSequence, TighteningStep } from '../types';
+
+// Bolt tightening order per PCC-1 Appendix F. Bolts are numbered 1..N clockwise from
+// the first hole right of top (see boltLayout). Passes 1-3 follow the order below;
+// the check pass goes round clockwise.
+
+const circularDistance = (a: number, b: number, count: number) => {
+  const d = Math.abs(a - b);
+  return Math.min(d, count - d);
+};
+
+// Orders 0..count-1 so each next index is as far as possible from those already
+// chosen on a circle of `count` positions, then from the last one chosen
+// (0,2,1,3 for 4; 0,2,4,1,3 for 5; 0,3,1,4,2,5 for 6 - matching the PCC-1 tables)
+const spreadOrder = (count: number): number[] => {
+  const order = [0];
+  const remaining = Array.from({ length: count }, (_, i) => i).slice(1);
+  while (remaining.length > 0) {
+    const last = order[order.length - 1];
+    const score = (candidate: number) => [
+      Math.min(...order.map(chosen => circularDistance(candidate, chosen, count))),
+      circularDistance(candidate, last, count)
+    ];
+    const best = remaining.reduce((a, b) => {
+      const [minA, lastA] = score(a);
+      const [minB, lastB] = score(b);
+      return minB > minA || (minB === minA && lastB > lastA) ? b : a;
+    });
+    order.push(best);
+    remaining.splice(remaining.indexOf(best), 1);
+  }
+  return order;
+};
+
+// Positions 90° (or 180°) apart, listed in cross order: 0, 1/2, 1/4, 3/4 turn
+const crossSet = (start: number, count: number): number[] => {
+  if (count % 4 === 0) {
+    const q = count / 4;
+    return [start, start + 2 * q, start + q, start + 3 * q];
+  }
+  if (count % 2 === 0) return [start, start + count / 2];
+  return [start];
+};
+
+const setSize = (count: number) => (count % 4 === 0 ? 4 : (count % 2 === 0 ? 2 : 1));
+
+// Largest group size that keeps at least 8 groups and divides the bolt count
+const groupSize = (count: number): number => {
+  for (let size = Math.floor(count / 8); size > 1; size--) {
+    if (count % size === 0) return size;
+  }
+  return 1;
+};
+
+export const generateTighteningSequence = (boltCount: number, pattern: TighteningPattern): TighteningSequence => {
+  const count = Math.max(Math.floor(boltCount), 1);
+  let steps: TighteningStep[];
+
+  if (pattern === 'group') {
+    const size = groupSize(count);
+    const groups = count / size;
+    const groupOrder = spreadOrder(groups / setSize(groups)).flatMap(start => crossSet(start, groups));
+    steps = groupOrder.map((group, i) => ({
+      step: i + 1,
+      bolts: Array.from({ length: size }, (_, k) => group * size + k + 1)
+    }));
+  } else {
+    const starts = spreadOrder(count / setSize(count));
+    const sets = starts.map(start => crossSet(start, count).map(position => position + 1));
+    steps = pattern === 'quadrant'
+      ? sets.map((bolts, i) => ({ step: i + 1, bolts }))
+      : sets.flat().map((bolt, i) => ({ step: i + 1, bolts: [bolt] }));
+  }
+
+  const boltOrder = steps.flatMap(s => s.bolts);
+  const stepOfBolt: Record<number, number> = {};
+  steps.forEach(s => s.bolts.forEach(bolt => { stepOfBolt[bolt] = s.step; }));
+
+  return { pattern, steps, boltOrder, stepOfBolt, simultaneous: pattern === 'quadrant' };
+};
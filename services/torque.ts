@@ -0,0 +1,60 @@
+import { LUBRICANTS, TORQUE_PASSES } from '../constants';
+import { CalculationResults, FlangeInputs, Pcc1Results, TorqueResults } from '../types';
+
+// Wrench torque for the target bolt preload.
+// Short form: T = K F d. Long form (PCC-1 Appendix K):
+// T = F [P / 2π + μ d2 / (2 cos 30°) + μ Dn / 2]
+
+const NM_TO_FT_LBF = 0.737562;
+
+// UNC below 1", 8-UN from 1" up (TEMA)
+const threadsPerInch = (size: number): number => {
+  if (size >= 1) return 8;
+  if (size >= 0.875) return 9;
+  if (size >= 0.75) return 10;
+  if (size >= 0.625) return 11;
+  return 13;
+};
+
+// Target residual bolt stress: PCC-1 Sbsel when the check is active, otherwise App.2 W / Ab
+export const resolveTargetBoltStress = (inputs: FlangeInputs, results: Pick<CalculationResults, 'designBoltLoad' | 'totalBoltArea'>, pcc1: Pcc1Results) => {
+  const usePcc1 = inputs.usePcc1Check && pcc1.sbSelFinal > 0;
+  return {
+    stressBasis: usePcc1 ? 'pcc1' as const : 'designLoad' as const,
+    targetStress: usePcc1 ? pcc1.sbSelFinal : results.designBoltLoad / results.totalBoltArea
+  };
+};
+
+export const calculateBoltTorque = (inputs: FlangeInputs, results: CalculationResults, pcc1: Pcc1Results): TorqueResults => {
+  const lubricant = LUBRICANTS.find(l => l.id === inputs.lubricant) || LUBRICANTS[0];
+  const method = inputs.torqueMethod || 'nutFactor';
+
+  const { stressBasis, targetStress } = resolveTargetBoltStress(inputs, results, pcc1);
+  const preload = targetStress * results.singleBoltArea;
+
+  const nominalDia = inputs.boltSize * 25.4;
+  const pitch = 25.4 / threadsPerInch(inputs.boltSize);
+  const pitchDia = nominalDia - (0.6495 * pitch);
+  // Heavy hex nut: across flats 1.5d + 3.2 mm, bearing on a hole ~d + 1.6 mm
+  const nutBearingDia = ((1.5 * nominalDia + 3.2) + (nominalDia + 1.6)) / 2;
+  const friction = lubricant.friction;
+
+  const torqueNmm = method === 'longForm'
+    ? preload * ((pitch / (2 * Math.PI)) + ((friction * pitchDia) / (2 * Math.cos(Math.PI / 6))) + ((friction * nutBearingDia) / 2))
+    : preload * (inputs.manualNutFactor || lubricant.nutFactor) * nominalDia;
+
+  const torqueNm = torqueNmm / 1000;
+  const passes = TORQUE_PASSES.map(pass => ({
+    ...pass,
+    torqueNm: torqueNm * pass.percent / 100,
+    torqueFtLbf: torqueNm * NM_TO_FT_LBF * pass.percent / 100
+  }));
+
+  return {
+    method, stressBasis,
+    targetStress, preload, nominalDia, pitch, pitchDia, nutBearingDia, friction,
+    nutFactor: preload > 0 ? torqueNmm / (preload * nominalDia) : 0,
+    torqueNm, torqueFtLbf: torqueNm * NM_TO_FT_LBF,
+    passes
+  };
+};
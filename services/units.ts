@@ -0,0 +1,73 @@
+import { AreaUnit, DisplayUnits, ForceUnit, LengthUnit, StressUnit, TorqueUnit, UnitQuantity, UnitSystem } from '../types';
+import { UNIT_SYSTEMS } from '../constants';
+import { PSI_TO_MPA } from './engineeringUtils';
+
+// Display conversions from the engine's base units (mm, mm², MPa, N, N·m).
+// Format digits are given for the SI unit; the other units shift them so that
+// e.g. 1 decimal in mm becomes 3 decimals in inches.
+
+const MM_PER_IN = 25.4;
+const N_PER_LBF = 4.448222;
+const N_PER_KGF = 9.80665;
+const NM_PER_FT_LBF = 1.355818;
+
+export const DEFAULT_UNITS: DisplayUnits = UNIT_SYSTEMS[0].units;
+
+export const getUnitSystem = (system: UnitSystem, current: DisplayUnits): DisplayUnits =>
+  UNIT_SYSTEMS.find(s => s.id === system)?.units ?? { ...current, system: 'custom' };
+
+export const convertLength = (mm: number, unit: LengthUnit): number => (unit === 'in' ? mm / MM_PER_IN : mm);
+
+export const convertArea = (mm2: number, unit: AreaUnit): number => (unit === 'in²' ? mm2 / (MM_PER_IN * MM_PER_IN) : mm2);
+
+export const convertStress = (mpa: number, unit: StressUnit): number => {
+  switch (unit) {
+    case 'ksi': return mpa / PSI_TO_MPA / 1000;
+    case 'psi': return mpa / PSI_TO_MPA;
+    default: return mpa;
+  }
+};
+
+export const convertForce = (n: number, unit: ForceUnit): number => {
+  switch (unit) {
+    case 'kN': return n / 1000;
+    case 'kip': return n / N_PER_LBF / 1000;
+    case 'lbf': return n / N_PER_LBF;
+    case 'kgf': return n / N_PER_KGF;
+    default: return n;
+  }
+};
+
+export const convertTorque = (nm: number, unit: TorqueUnit): number => (unit === 'ft·lbf' ? nm / NM_PER_FT_LBF : nm);
+
+export const formatLength = (mm: number, unit: LengthUnit, digits = 1): string =>
+  convertLength(mm, unit).toFixed(unit === 'in' ? digits + 2 : digits);
+
+export const formatArea = (mm2: number, unit: AreaUnit, digits = 1): string =>
+  convertArea(mm2, unit).toFixed(unit === 'in²' ? digits + 2 : digits);
+
+export const formatStress = (mpa: number, unit: StressUnit, digits = 1): string => {
+  const value = convertStress(mpa, unit);
+  switch (unit) {
+    case 'ksi': return value.toFixed(digits + 1);
+    case 'psi': return value.toFixed(0);
+    default: return value.toFixed(digits);
+  }
+};
+
+export const formatForce = (n: number, unit: ForceUnit): string => {
+  const digits = unit === 'kip' ? 2 : unit === 'kN' ? 1 : 0;
+  return convertForce(n, unit).toLocaleString(undefined, { maximumFractionDigits: digits });
+};
+
+export const formatTorque = (nm: number, unit: TorqueUnit): string => convertTorque(nm, unit).toFixed(0);
+
+export const convertQuantity = (value: number, quantity: UnitQuantity, units: DisplayUnits): number => {
+  switch (quantity) {
+    case 'length': return convertLength(value, units.length);
+    case 'area': return convertArea(value, units.area);
+    case 'stress': return convertStress(value, units.stress);
+    case 'force': return convertForce(value, units.force);
+    case 'torque': return convertTorque(value, units.torque);
+  }
+};
@@ -3,13 +3,17 @@ export interface BoltMaterial {
   id: string;
   minTensile?: number; // MPa
   minYield?: number;   // MPa
+  group: MaterialGroup; // Selects E(T) / alpha(T) curves
   stresses: (number | null)[];
 }
 
+export type MaterialGroup = 'CS' | 'CRMO' | 'CR12' | 'SS';
+
 export interface ShellMaterial {
   id: string;
   minTensile?: number; // MPa
   minYield?: number;   // MPa
+  group: MaterialGroup; // TM-1 material group (Modulus of Elasticity)
   stresses: (number | null)[];
 }
 
@@ -18,6 +22,72 @@ export interface GasketType {
   m: number;
   y: number; // in PSI
   sketches: string;
+  maxStress?: number; // MPa (crushing limit on seating area)
+}
+
+export type FlangeType = 'integral' | 'loose' | 'lapJoint' | 'ring' | 'reverse';
+
+// Appendix 2 analysis method: integral (Fig. 2-4 integral & reverse), loose with hub, loose without hub
+export type FlangeAnalysisKind = 'integral' | 'looseHub' | 'looseRing';
+
+export interface LoadCase {
+  id: string;
+  name: string;
+  pressure: number; // in pressureUnit
+  temp: number; // in tempUnit
+  externalAxialForce: number; // kN
+  externalMoment: number; // kN·m
+  tubePressure?: number; // in pressureUnit (two-sided joints, unset = tube-side design)
+  tubeTemp?: number; // in tempUnit (two-sided joints, unset = tube-side design)
+}
+
+// Tube-side conditions of a tubesheet clamped between girth flanges
+export interface TubeSideInputs {
+  designPressure: number; // in pressureUnit
+  designTemp: number; // in tempUnit
+  gasketType: string;
+  passGasketType: string;
+  gasketSeatingWidth: number; // mm (N, 0 = same as shell side)
+  facingSketch: string; // Div.2 Tab. 14.16.3 ('' = same as shell side)
+  passPartitionLength: number; // mm
+  passPartitionWidth: number; // mm
+}
+
+export type TorqueMethod = 'nutFactor' | 'longForm';
+
+// PCC-1 Appendix F: legacy cross pattern, 4-tool quadrant sets, or adjacent-bolt groups
+export type TighteningPattern = 'legacyCross' | 'quadrant' | 'group';
+
+export interface Lubricant {
+  id: string;
+  label: string;
+  nutFactor: number; // K (short-form T = K F d)
+  friction: number; // mu for thread and nut face (long-form)
+}
+
+// Conversion of external piping / nozzle loads on the joint
+export type ExternalLoadMethod = 'kellogg' | 'div2';
+
+// Minimum-g1 rule used when g1 is not locked
+export type G1Rule = 'legacy' | 'taper' | 'ratio';
+
+// Output units. The engine always works in mm / MPa / N; these only affect display and exports
+export type UnitSystem = 'SI' | 'US' | 'mixed' | 'custom';
+export type LengthUnit = 'mm' | 'in';
+export type StressUnit = 'MPa' | 'ksi' | 'psi';
+export type ForceUnit = 'kN' | 'N' | 'kip' | 'lbf' | 'kgf';
+export type AreaUnit = 'mm²' | 'in²';
+export type TorqueUnit = 'N·m' | 'ft·lbf';
+
+export type UnitQuantity = 'length' | 'area' | 'stress' | 'force' | 'torque';
+
+export interface DisplayUnits {
+  system: UnitSystem;
+  length: LengthUnit;
+  stress: StressUnit;
+  force: ForceUnit;
+  area: AreaUnit;
+  torque: TorqueUnit;
 }
 
 export interface FlangeInputs {
@@ -44,6 +114,7 @@ export interface FlangeInputs {
   manualY: number; // Manual Gasket Y override
   manualPassM: number; // Manual Pass Partition M override
   manualPassY: number; // Manual Pass Partition Y override
+  manualGasketMaxStress: number; // MPa (0 = gasket type default)
   designTemp: number;
   tempUnit: string; // °C, °F
   designPressure: number;
@@ -54,6 +125,8 @@ export interface FlangeInputs {
   boltMaterial: string; // From the provided list
   passPartitionLength: number; // mm
   passPartitionWidth: number; // mm
+  passLaneCount: number; // Horizontal pass partition lanes (0 = none)
+  passLanePitch: number; // mm between lane centerlines (symmetric about the horizontal centerline)
   gasketType: string;
   passGasketType: string; // Gasket type for pass partition
   facingSketch: string; // ASME Table 2-5.2 Sketch ID
@@ -72,6 +145,58 @@ export interface FlangeInputs {
   phiGMax: number;
   g: number; // New field
   passPartAreaReduction: number; // New field (%)
+
+  // External Loads
+  externalAxialForce: number; // kN (tension positive)
+  externalMoment: number; // kN·m
+  externalLoadMethod: ExternalLoadMethod;
+
+  // Assembly Torque
+  lubricant: string;
+  torqueMethod: TorqueMethod;
+  manualNutFactor: number; // 0 = lubricant K
+  tensionerPressureArea: number; // mm² hydraulic area of the tool (0 = generic table value)
+  coverage50Factor: number; // First-half overload for 50% tensioning coverage (0 = 1.1)
+  tighteningPattern: TighteningPattern;
+  elongationTargetStress: number; // MPa (0 = PCC-1 Sbsel or W / Ab)
+  elongationTolerance: number; // ± % of target elongation
+
+  // Two-Sided Tubesheet Joint (design conditions above are the shell side)
+  useTwoSidedJoint: boolean;
+  tubeSide: TubeSideInputs;
+
+  // Load Cases (the design case above is always evaluated)
+  loadCases: LoadCase[];
+  includeHydrotest: boolean; // UG-99 hydrotest at ambient
+
+  // Appendix 2 Flange Geometry
+  flangeType: FlangeType;
+  flangeThickness: number; // mm (0 = minimum required)
+  hubLength: number; // mm (0 = auto from taper)
+  hubTaper: number; // n of 1:n hub taper
+  g1Rule: G1Rule;
+  g1MinRatio: number; // g1 / g0 (ratio rule)
+  lockG1: boolean; // keep the entered g1 when g0 changes
+  lapContactDia: number; // mm (G1, lap-joint reaction dia, 0 = auto)
+  reverseBoreDia: number; // mm (B', reverse flange ID, 0 = gasket ID)
+
+  // Stud Bolting (stack between the nuts)
+  matingFlangeThickness: number; // mm (0 = same as flange)
+  tubesheetThickness: number; // mm (0 = no tubesheet between the flanges)
+  gasketThickness: number; // mm (compressed, per gasket)
+  nutHeight: number; // mm (0 = heavy hex, 1 d)
+  washerThickness: number; // mm (0 = no washers)
+  threadProjection: number; // mm beyond each nut
+  studLengthIncrement: number; // mm procurement rounding
+
+  // Optimizer
+  optimizerMinMargin: number; // % (minimum bolt load margin for a candidate)
+  boltingCostPerKg: number; // Studs and nuts, per kg
+  boltCountMultiple: number; // 4 or 8
+  minBoltCount: number;
+  maxBoltCount: number;
+  preferredBoltCounts: string; // Comma-separated; empty = every multiple in range
+  straddlePassLanes: boolean; // Reject counts with a bolt on a pass lane centerline
 }
 
 export interface TemaBoltInfo {
@@ -137,4 +262,485 @@ export interface CalculationResults {
   bWidth: number; // b (mm)
   b0Width: number; // b0 (mm)
   nWidth: number; // N (mm)
+
+  // ASME Sec. VIII Div.1 Appendix 2 Flange Design
+  equivalentPressure: number; // Kellogg P_eq (MPa, 0 for Div.2 method)
+  externalEndForce: number; // External load added to H (N)
+  designBoltLoad: number; // W = (Am + Ab) Sa / 2 (N)
+  gasketCrushingSide: JointSide; // Side nearest its crushing limit (two-sided joint)
+  gasketContactArea: number; // mm^2 (seating ring + pass partition)
+  gasketSeatingStress: number; // W / contact area (MPa)
+  gasketMaxStress: number; // MPa (0 = no limit)
+  gasketStressOk: boolean;
+  jointSides: JointSides | null; // Two-sided tubesheet joint only
+  governingSide: JointSide;
+  requiredBoltLoad: number; // Max Wm1 / Wm2 over the joint sides (N)
+  hubGeometry: HubGeometry;
+  passLaneBolts: number[]; // Bolt numbers whose hole crosses a pass lane centerline
+  flangeDesign: FlangeDesignResults;
+  bolting: StudBoltingResults;
+  thermal: ThermalResults;
+}
+
+export type JointSide = 'shell' | 'tube';
+
+export interface JointSideLoads {
+  pressure: number; // MPa
+  boltAllowableStress: number; // Sb at the side design temp (MPa)
+  gasketM: number;
+  gasketY: number; // PSI
+  passM: number;
+  passY: number; // PSI
+  seatingID: number; // mm (seating OD is shared by both sides)
+  b0Width: number; // mm
+  bWidth: number; // mm
+  gMeanDia: number; // mm (G)
+  passArea: number; // mm^2
+  contactArea: number; // mm^2 (seating ring + pass partition)
+  gasketMaxStress: number; // MPa (0 = no limit)
+  externalEndForce: number; // External load on this side's G (N)
+  hForce: number; // N
+  hpForce: number; // N
+  wm1: number; // N
+  wm2: number; // N
+  requiredBoltArea: number; // mm^2
+}
+
+export type JointSides = Record<JointSide, JointSideLoads>;
+
+export interface HubGeometry {
+  g1: number; // mm
+  hubLength: number; // mm
+  taper: number; // n of 1:n
+  source: G1Rule | 'locked' | 'noHub';
+  warning: string | null; // Selected rule could not be applied (source shows the rule used)
+}
+
+export interface ThermalResults {
+  designTempC: number;
+  deltaT: number; // °C above assembly temperature
+  boltAlpha: number; // 1e-6 mm/mm/°C
+  flangeAlpha: number; // 1e-6 mm/mm/°C
+  boltModulusAmbient: number; // MPa
+  boltModulusDesign: number; // MPa
+  gripLength: number; // mm
+  effectiveLength: number; // mm
+  differentialStrain: number; // (alpha_f - alpha_b) dT
+  assemblyLoad: number; // Target bolt stress × Ab at assembly (N)
+  modulusLoadChange: number; // From E_b(T) / E_b(amb) (N)
+  thermalLoadChange: number; // From differential growth (N)
+  boltLoadAtTemp: number; // N
+  ok: boolean; // Bolt load at temperature >= Wm1 (governing side)
+}
+
+export interface StudBoltingResults {
+  sized: boolean; // false without a flange thickness; lengths and weights are then 0
+  flangeThickness: number; // mm
+  matingThickness: number; // mm
+  tubesheetThickness: number; // mm
+  gasketCount: number; // 2 with a tubesheet between the flanges
+  gasketThickness: number; // mm (per gasket)
+  stackThickness: number; // Flanges + tubesheet + gaskets (mm)
+  gripLength: number; // Stack + washers, between nut faces (mm)
+  nutHeight: number; // mm
+  washerThickness: number; // mm
+  threadProjection: number; // mm (per end)
+  calculatedLength: number; // mm before rounding
+  increment: number; // mm
+  studLength: number; // mm (rounded up to the increment)
+  studCount: number;
+  nutCount: number;
+  washerCount: number;
+  studWeight: number; // kg each
+  nutWeight: number; // kg each
+  totalWeight: number; // kg, all studs and nuts
+}
+
+export interface BoltingBomLine {
+  boltSize: number; // inches
+  boltMaterial: string;
+  studLength: number; // mm
+  studCount: number;
+  nutCount: number;
+  washerCount: number;
+}
+
+export interface FlangeStressCase {
+  moment: number; // N·mm
+  allowable: number; // Sf (MPa)
+  sh: number; // Longitudinal hub stress SH (MPa)
+  sr: number; // Radial flange stress SR (MPa)
+  st: number; // Tangential flange stress ST (MPa)
+  stInner?: number; // Reverse flange ST' at inside diameter B' (MPa)
+  shLimit: number; // 1.5 Sf
+  combinedHR: number; // (SH + SR) / 2
+  combinedHT: number; // (SH + ST) / 2
+  shOk: boolean;
+  srOk: boolean;
+  stOk: boolean;
+  combinedOk: boolean;
+  ok: boolean;
+}
+
+export interface FlangeDesignResults {
+  flangeType: FlangeType;
+  analysisKind: FlangeAnalysisKind;
+  bCorroded: number; // B (mm)
+  g0Corroded: number; // mm
+  g1Corroded: number; // mm
+  hubLength: number; // h (mm)
+  h0: number; // sqrt(B g0) (mm)
+  lapContactDia: number; // G1 (mm)
+  reverseBoreDia: number; // B' (mm)
+
+  // Forces (N) & Lever Arms (mm)
+  hdForce: number;
+  htForce: number;
+  hgForce: number;
+  hdArm: number;
+  htArm: number;
+  hgArm: number;
+
+  // Moments (N·mm)
+  mdMoment: number;
+  mtMoment: number;
+  mgMoment: number;
+  operatingMoment: number; // Mo
+  seatingBoltLoad: number; // W = (Am + Ab) Sa / 2 (N)
+  seatingMoment: number; // Mg' = W hG
+
+  // Factors
+  kRatio: number; // K = A / B
+  factorF: number; // F or F_L
+  factorV: number; // V or V_L
+  factorSmallF: number; // f (hub stress correction)
+  factorE: number; // e = F / h0
+  factorD: number; // d = U h0 g0² / V
+  factorY: number;
+  factorT: number;
+  factorU: number;
+  factorZ: number;
+
+  shellAmbientAllowable: number; // Sf at ambient (MPa)
+  shellDesignAllowable: number; // Sf at design temp (MPa)
+
+  solved: boolean; // false when an allowable is missing or no t up to the search cap passes
+  minThickness: number; // mm (Smallest t satisfying all stress limits, 0 when not solved)
+  thickness: number; // mm (Evaluated thickness, 0 when not solved and not entered)
+  operating: FlangeStressCase;
+  seating: FlangeStressCase;
+  rigidity: RigidityResults;
+  ok: boolean;
+}
+
+export interface RigidityCase {
+  moment: number; // N·mm
+  modulus: number; // E (MPa)
+  j: number; // Rigidity index J
+  ok: boolean; // J <= 1.0
+}
+
+export interface RigidityResults {
+  flangeKind: FlangeAnalysisKind;
+  kFactor: number; // K_I = 0.3 (integral), K_L = 0.2 (loose)
+  operating: RigidityCase;
+  seating: RigidityCase;
+  ok: boolean;
+}
+
+export interface Pcc1Results {
+  active: boolean; // Mirrors inputs.usePcc1Check
+  ringArea: number; // mm² (Sealing element area)
+  reducedPassArea: number; // mm² (Pass partition area after reduction)
+  totalAg: number; // mm² (Ag)
+  totalBoltRootArea: number; // mm² (Ab x nb)
+  sbSelCalc: number; // MPa (Step 1)
+  valA: number; // MPa (Step 2)
+  valB: number; // MPa (Step 3)
+  valC: number; // MPa (Step 4)
+  sbSelFinal: number; // MPa (Selected Sbsel)
+  pMpa: number; // Design pressure in MPa
+  step6Side: JointSide; // Side checked in Step 6 (higher pressure on a two-sided joint)
+  step6PMpa: number; // MPa
+  step6Ag: number; // mm² (Ag with that side's seating width and pass partition)
+  step6SeatingID: number; // mm
+  step6EndForce: number; // N (that side's external end force)
+  step5Ag: number; // mm² (larger side's Ag on a two-sided joint)
+  step7Ag: number; // mm² (smaller side's Ag on a two-sided joint)
+  step5Threshold: number;
+  step6Threshold: number;
+  step7Threshold: number;
+  step8Threshold: number;
+  isStep5Ok: boolean;
+  isStep6Ok: boolean;
+  isStep7Ok: boolean;
+  isStep8Ok: boolean;
+  withinBounds: boolean; // Sbmin <= Sbsel <= Sbmax and Steps 5-8 OK
+  safe: boolean; // Steps 5-8 OK (always true when inactive)
+}
+
+export interface TorquePass {
+  label: string;
+  percent: number; // % of target torque
+  torqueNm: number;
+  torqueFtLbf: number;
+}
+
+export interface TorqueResults {
+  method: TorqueMethod;
+  stressBasis: 'pcc1' | 'designLoad'; // PCC-1 Sbsel or App.2 W / Ab
+  targetStress: number; // MPa on root area
+  preload: number; // N per bolt
+  nominalDia: number; // mm
+  pitch: number; // mm
+  pitchDia: number; // mm
+  nutBearingDia: number; // mm (mean)
+  friction: number;
+  nutFactor: number; // Effective K = T / (F d)
+  torqueNm: number;
+  torqueFtLbf: number;
+  passes: TorquePass[];
+}
+
+export interface TensioningResults {
+  stressBasis: 'pcc1' | 'designLoad';
+  targetStress: number; // Residual stress on root area (MPa)
+  residualLoad: number; // N per bolt
+  gripLength: number; // mm
+  loadTransferFactor: number; // LTF = 1 + d / L_grip
+  toolLoad100: number; // N per bolt, 100% coverage
+  toolLoad50: number; // N per bolt, first pass of 50% coverage
+  pressureArea: number; // Tool hydraulic area (mm²)
+  pumpPressure100: number; // bar
+  pumpPressure50: number; // bar
+  maxPressure: number; // bar
+  ok: boolean; // Both pressures within the tool rating
+}
+
+export interface ElongationResults {
+  stressBasis: 'pcc1' | 'designLoad' | 'user';
+  targetStress: number; // MPa on tensile area
+  tensileArea: number; // mm²
+  preload: number; // N per bolt
+  modulus: number; // Bolt E at ambient (MPa)
+  gripLength: number; // mm
+  nutAllowance: number; // Engagement counted in each nut (mm)
+  effectiveLength: number; // Grip + 2 nut allowances (mm)
+  elongation: number; // mm
+  tolerance: number; // ± %
+  minElongation: number; // mm
+  maxElongation: number; // mm
+}
+
+export interface FlangeEvaluation {
+  results: CalculationResults;
+  pcc1: Pcc1Results;
+  torque: TorqueResults;
+  tensioning: TensioningResults | null; // Sizes without tensioner data
+  elongation: ElongationResults;
+  requiredLoad: number; // N (max of Wm1, Wm2)
+  availableLoad: number; // N (Bolt load at design temp)
+  marginPercent: number;
+  isSafe: boolean;
+}
+
+export type PitchStatus = 'ok' | 'tight' | 'wide';
+
+export type OptimizerObjective = 'requiredLoad' | 'finalOD' | 'finalBCD' | 'forgingWeight' | 'boltingCost' | 'boltCount';
+
+export interface OptimizerCandidate {
+  boltSize: number; // inches
+  boltCount: number;
+  requiredLoad: number; // N
+  marginPercent: number;
+  finalBCD: number; // mm
+  finalOD: number; // mm
+  geometricPitch: number; // mm
+  pitchStatus: PitchStatus;
+  pcc1Ok: boolean | null; // null when the PCC-1 check is off
+  forgingWeight: number; // kg, ring + hub (one flange)
+  boltingCost: number; // Stud and nut weight × cost per kg
+  passLaneBolts: number[];
+}
+
+// Optimizer run once per tightening method (tensioned spacing per HYDRAULIC_TENSIONING_DATA)
+export interface TighteningMethodComparison {
+  torque: OptimizerCandidate[];
+  tensioning: OptimizerCandidate[]; // Sizes with tensioner data only
+}
+
+export type SweepOutput = 'finalBCD' | 'finalOD' | 'requiredBoltArea' | 'totalBoltArea' | 'wm1' | 'wm2' | 'gasketSeatingStress' | 'marginPercent';
+
+export interface SweepAxis {
+  field: keyof FlangeInputs; // Numeric field from SWEEP_FIELDS
+  from: number;
+  to: number;
+  steps: number; // Points including both ends
+}
+
+export interface SweepRequest {
+  axes: SweepAxis[]; // One or two
+  outputs: SweepOutput[];
+}
+
+export interface SweepPoint {
+  x: number;
+  y: number | null; // Second axis value (null for a 1-D sweep)
+  values: Record<SweepOutput, number>;
+}
+
+export interface SweepResult {
+  request: SweepRequest;
+  xValues: number[];
+  yValues: number[]; // Empty for a 1-D sweep
+  points: SweepPoint[];
+}
+
+export interface SensitivityPoint {
+  value: number; // Perturbed input value
+  marginPercent: number;
+  finalOD: number; // mm
+}
+
+export interface SensitivityEntry {
+  field: keyof FlangeInputs;
+  label: string;
+  baseValue: number;
+  low: SensitivityPoint; // Input decreased by the perturbation
+  high: SensitivityPoint; // Input increased by the perturbation
+  marginSwing: number; // |high - low| margin, %
+  odSwing: number; // |high - low| OD, mm
+}
+
+export interface SensitivityResult {
+  percent: number; // ± perturbation, %
+  baseMargin: number; // %
+  baseOD: number; // mm
+  entries: SensitivityEntry[];
+}
+
+export type TighteningMethod = 'torque' | 'tensioning';
+
+export interface MonteCarloSettings {
+  samples: number; // Simulated joint assemblies
+  preloadScatter: number; // ± % per-bolt preload, taken as ±3σ
+  gasketTolerance: number; // ± % on gasket m and y (uniform)
+}
+
+export interface StressHistogram {
+  min: number; // MPa
+  binWidth: number; // MPa
+  counts: number[];
+}
+
+export interface MonteCarloResults {
+  settings: MonteCarloSettings;
+  method: TighteningMethod;
+  targetPreload: number; // N per bolt
+  preloadP05: number; // N, 5th percentile of per-bolt preload
+  preloadP95: number; // N
+  stressMean: number; // MPa, local assembly gasket stress
+  stressP05: number; // MPa
+  stressP95: number; // MPa
+  sgMinOAssembly: number; // MPa, assembly stress that leaves Sgmin-O in operation
+  histogram: StressHistogram;
+  underSeating: number; // Probability any bolt segment is below Sgmin-S
+  operatingUnderload: number; // Probability any bolt segment is below Sgmin-O in operation
+  crushing: number; // Probability any bolt segment is above Sgmax
+  boltLoadShortfall: number; // Probability the total preload is below the required Wm
+  allOk: number; // Probability of none of the above
+}
+
+export interface JobProgress {
+  done: number; // Evaluations completed
+  total: number;
+}
+
+// Background optimizer jobs (services/optimizer.worker.ts) and their results
+export type OptimizerJob =
+  | { kind: 'search'; inputs: FlangeInputs; fixedSize: boolean }
+  | { kind: 'compare'; inputs: FlangeInputs; fixedSize: boolean }
+  | { kind: 'sweep'; inputs: FlangeInputs; request: SweepRequest }
+  | { kind: 'monteCarlo'; inputs: FlangeInputs; settings: MonteCarloSettings };
+
+export interface OptimizerJobResults {
+  search: OptimizerCandidate[];
+  compare: TighteningMethodComparison;
+  sweep: SweepResult;
+  monteCarlo: MonteCarloResults;
+}
+
+export type OptimizerWorkerMessage =
+  | { type: 'progress'; progress: JobProgress }
+  | { type: 'result'; result: OptimizerJobResults[OptimizerJob['kind']] }
+  | { type: 'error'; message: string };
+
+export interface LoadCaseEvaluation {
+  id: string;
+  name: string;
+  kind: 'design' | 'user' | 'hydrotest' | 'thermal';
+  inputs: FlangeInputs; // Inputs the case was evaluated with
+  evaluation: FlangeEvaluation;
+}
+
+export interface LoadCaseSummary {
+  cases: LoadCaseEvaluation[];
+  governing: LoadCaseEvaluation; // Lowest bolt load margin
+  hydrotestRatio: number; // UG-99 LSR (ambient / design shell stress)
+}
+
+export interface TighteningStep {
+  step: number;
+  bolts: number[]; // Bolt numbers (clockwise from top) tightened in this step
+}
+
+export interface TighteningSequence {
+  pattern: TighteningPattern;
+  steps: TighteningStep[];
+  boltOrder: number[]; // Flattened tightening order
+  stepOfBolt: Record<number, number>; // Bolt number -> step number
+  simultaneous: boolean; // Bolts in a step are tightened at the same time
+}
+
+// Row of the Calculation Summary List; lengths are stored in mm
+export interface SavedRecord {
+  id: string;
+  originalInputs: FlangeInputs; // Store original inputs to allow full restoration
+  itemNo: string;
+  part: string;
+  id_mm: number;
+  g0: number;
+  g1: number;
+  bcd: number;
+  flangeOd: number;
+  boltSize: string;
+  boltEa: number;
+  boltMaterial: string;
+  bolting: BoltingBomLine;
+  hasOuterRing: boolean;
+  hasInnerRing: boolean;
+  gasketRod: number;
+  gasketOd: number;
+  gasketId: number;
+  gasketRid: number;
+  gasketType: string;
+}
+
+export interface ProjectMeta {
+  name: string;
+  client: string;
+  jobNumber: string;
+  exchangerTag: string;
+  revision: string;
+}
+
+export type ProjectSaveStatus = 'loading' | 'saving' | 'saved' | 'error';
+
+// Saved project (services/projectStore.ts)
+export interface Project {
+  id: string;
+  meta: ProjectMeta;
+  units: DisplayUnits;
+  records: SavedRecord[];
+  updatedAt: number; // ms since epoch
 }